@@ -1,10 +1,23 @@
 import React, { Suspense } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
+import { CommissionPlanProvider } from './contexts/CommissionPlanContext';
+import { PayPeriodProvider } from './contexts/PayPeriodContext';
+import { ProfileProvider } from './contexts/ProfileContext';
 import { useAuth } from './hooks/useAuth';
+import { useProfile } from './hooks/useProfile';
 import LoadingScreen from './components/LoadingScreen';
 import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
+import CommissionPlans from './pages/CommissionPlans';
+import Statement from './pages/Statement';
+import Incentives from './pages/Incentives';
+import Inventory from './pages/Inventory';
+import CustomerDetails from './pages/CustomerDetails';
+import Trash from './pages/Trash';
+import Payroll from './pages/Payroll';
+import Team from './pages/Team';
+import SpiffReviews from './pages/SpiffReviews';
 
 function PrivateRoute({ children }: { children: React.ReactNode }) {
   const { session, loading } = useAuth();
@@ -16,23 +29,116 @@ function PrivateRoute({ children }: { children: React.ReactNode }) {
   return session ? <>{children}</> : <Navigate to="/login" />;
 }
 
+function ManagerRoute({ children }: { children: React.ReactNode }) {
+  const { session, loading } = useAuth();
+  const { isManager, loading: profileLoading } = useProfile();
+
+  if (loading || profileLoading) {
+    return <LoadingScreen />;
+  }
+
+  if (!session) {
+    return <Navigate to="/login" />;
+  }
+
+  return isManager ? <>{children}</> : <Navigate to="/" />;
+}
+
 export default function App() {
   return (
     <AuthProvider>
-      <Suspense fallback={<LoadingScreen />}>
-        <Routes>
-          <Route path="/login" element={<Login />} />
-          <Route
-            path="/"
-            element={
-              <PrivateRoute>
-                <Dashboard />
-              </PrivateRoute>
-            }
-          />
-          <Route path="*" element={<Navigate to="/" />} />
-        </Routes>
-      </Suspense>
+      <ProfileProvider>
+        <CommissionPlanProvider>
+          <PayPeriodProvider>
+            <Suspense fallback={<LoadingScreen />}>
+              <Routes>
+                <Route path="/login" element={<Login />} />
+                <Route
+                  path="/"
+                  element={
+                    <PrivateRoute>
+                      <Dashboard />
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/commission-plans"
+                  element={
+                    <PrivateRoute>
+                      <CommissionPlans />
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/statement"
+                  element={
+                    <PrivateRoute>
+                      <Statement />
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/trash"
+                  element={
+                    <PrivateRoute>
+                      <Trash />
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/incentives"
+                  element={
+                    <PrivateRoute>
+                      <Incentives />
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/inventory"
+                  element={
+                    <PrivateRoute>
+                      <Inventory />
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/customers/:id"
+                  element={
+                    <PrivateRoute>
+                      <CustomerDetails />
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/payroll"
+                  element={
+                    <ManagerRoute>
+                      <Payroll />
+                    </ManagerRoute>
+                  }
+                />
+                <Route
+                  path="/team"
+                  element={
+                    <ManagerRoute>
+                      <Team />
+                    </ManagerRoute>
+                  }
+                />
+                <Route
+                  path="/spiff-reviews"
+                  element={
+                    <ManagerRoute>
+                      <SpiffReviews />
+                    </ManagerRoute>
+                  }
+                />
+                <Route path="*" element={<Navigate to="/" />} />
+              </Routes>
+            </Suspense>
+          </PayPeriodProvider>
+        </CommissionPlanProvider>
+      </ProfileProvider>
     </AuthProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,190 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { AuditEntry, AuditTable, getAuditHistory } from '../lib/supabase';
+import { GridRow } from '../lib/salesGrid';
+
+interface AuditHistoryModalProps {
+  row: GridRow | null;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  stock_number: 'Stock Number',
+  customer_name: 'Customer',
+  sale_type: 'Sale Type',
+  vehicle_model: 'Vehicle Model',
+  vin: 'VIN',
+  vehicle_year: 'Year',
+  vehicle_make: 'Make',
+  sale_price: 'Sale Price',
+  accessories_price: 'Accessories Price',
+  warranty_price: 'Warranty Price',
+  warranty_cost: 'Warranty Cost',
+  maintenance_price: 'Maintenance Price',
+  maintenance_cost: 'Maintenance Cost',
+  trade_in_commission: 'Trade-In Commission',
+  shared_with_email: 'Shared With',
+  shared_status: 'Share Status',
+  shared_percentage: 'Their Split (%)',
+  email: 'Salesperson',
+  percentage: 'Split (%)',
+  counter_percentage: 'Counter (%)',
+  response_note: 'Response Note',
+  offered_at: 'Offered',
+  responded_at: 'Responded',
+  deal_status: 'Deal Status',
+  delivered_at: 'Delivered',
+  funded_at: 'Funded',
+  cancelled_at: 'Cancelled',
+  unwound_at: 'Unwound',
+  unwind_reason: 'Unwind Reason',
+  amount: 'Amount',
+  units: 'Units',
+  note: 'Note',
+  reason: 'Reason',
+  image_url: 'Proof Image',
+  status: 'Status',
+  rejection_reason: 'Rejection Reason',
+  reviewed_at: 'Reviewed',
+  date: 'Date',
+};
+
+// Internal references that mean nothing to a reader
+const HIDDEN_FIELDS = ['id', 'user_id', 'shared_with_id', 'reviewed_by', 'sale_id', 'incentive_program_id', 'customer_id'];
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  insert: 'Created',
+  update: 'Changed',
+  delete: 'Deleted',
+};
+
+const SHARE_ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  insert: 'Shared',
+  update: 'Changed share',
+  delete: 'Removed share',
+};
+
+const getTable = (row: GridRow): AuditTable =>
+  row.isSpiff ? 'spiffs' : row.isChargeback ? 'chargebacks' : 'sales';
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
+export default function AuditHistoryModal({ row, onClose }: AuditHistoryModalProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!row) return;
+
+    setEntries([]);
+    setLoading(true);
+    getAuditHistory(getTable(row), row.id)
+      .then(setEntries)
+      .catch(() => toast.error('Error fetching history'))
+      .finally(() => setLoading(false));
+  }, [row]);
+
+  // Who each share entry was about at the time, since updates only carry
+  // the fields that changed
+  const shareEmails = useMemo(() => {
+    const current = new Map<string, string>();
+    const byEntry = new Map<number, string>();
+    [...entries].reverse().forEach(entry => {
+      if (entry.table_name !== 'sale_shares') return;
+      const email = (entry.changes.email?.new ?? entry.changes.email?.old ?? current.get(entry.record_id)) as string | undefined;
+      if (email) {
+        current.set(entry.record_id, email);
+        byEntry.set(entry.id, email);
+      }
+    });
+    return byEntry;
+  }, [entries]);
+
+  const describeAction = (entry: AuditEntry) => {
+    if (entry.table_name !== 'sale_shares') return ACTION_LABELS[entry.action];
+    const email = shareEmails.get(entry.id);
+    return `${SHARE_ACTION_LABELS[entry.action]}${email ? ` with ${email}` : ''}`;
+  };
+
+  if (!row) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-2xl bg-white rounded-lg shadow-xl" onClick={e => e.stopPropagation()}>
+          <div className="p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-2xl font-bold">
+                History
+                <span className="ml-2 text-base font-normal text-gray-500">
+                  {row.stock_number ? `Stock #${row.stock_number}` : row.type}
+                </span>
+              </h2>
+              <button
+                onClick={onClose}
+                className="text-gray-500 hover:text-gray-700 transition-colors"
+                type="button"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            {loading && <p className="text-sm text-gray-500">Loading...</p>}
+            {!loading && entries.length === 0 && (
+              <p className="text-sm text-gray-500">No changes have been recorded for this entry.</p>
+            )}
+
+            <ol className="space-y-4 max-h-[60vh] overflow-y-auto">
+              {entries.map(entry => {
+                const fields = Object.keys(entry.changes).filter(field => !HIDDEN_FIELDS.includes(field));
+                return (
+                  <li key={entry.id} className="border border-gray-200 rounded-md">
+                    <div className="px-4 py-2 bg-gray-50 text-sm flex justify-between">
+                      <span className="font-medium text-gray-900">
+                        {describeAction(entry)} by {entry.changed_by_email || 'the system'}
+                      </span>
+                      <span className="text-gray-500">
+                        {format(new Date(entry.changed_at), 'MM/dd/yyyy h:mm a')}
+                      </span>
+                    </div>
+                    {fields.length > 0 && (
+                      <table className="min-w-full text-sm">
+                        <tbody className="divide-y divide-gray-100">
+                          {fields.map(field => (
+                            <tr key={field}>
+                              <td className="px-4 py-1 text-gray-600 w-1/3">
+                                {FIELD_LABELS[field] || field.replace(/_/g, ' ')}
+                              </td>
+                              {entry.action !== 'insert' && (
+                                <td
+                                  className={`px-4 py-1 break-all ${
+                                    entry.action === 'update' ? 'text-red-700 line-through' : 'text-gray-900'
+                                  }`}
+                                >
+                                  {formatValue(entry.changes[field].old)}
+                                </td>
+                              )}
+                              {entry.action !== 'delete' && (
+                                <td className="px-4 py-1 text-green-700 break-all">
+                                  {formatValue(entry.changes[field].new)}
+                                </td>
+                              )}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
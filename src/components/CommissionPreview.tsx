@@ -0,0 +1,67 @@
+import { TrendingUp } from 'lucide-react';
+import { SaleEntry, calculateCommissions, getCreditedPercentage } from '../lib/supabase';
+import { getNextTierHints, getPlanForDate } from '../lib/commissionPlans';
+import { useCommissionPlans } from '../hooks/useCommissionPlans';
+
+interface CommissionPreviewProps {
+  sale: SaleEntry;
+}
+
+export default function CommissionPreview({ sale }: CommissionPreviewProps) {
+  const { plans } = useCommissionPlans();
+  const plan = getPlanForDate(plans, sale.date);
+  const commissions = calculateCommissions(sale, plans, sale.user_id);
+  const hints = getNextTierHints(plan.rules, sale, getCreditedPercentage(sale, sale.user_id));
+
+  const lines = [
+    { label: 'Car', amount: commissions.carCommission },
+    { label: 'Accessories', amount: commissions.accessoriesCommission },
+    { label: 'Warranty', amount: commissions.warrantyCommission },
+    { label: 'Maintenance', amount: commissions.maintenanceCommission },
+    { label: 'Trade-In', amount: commissions.tradeInCommission },
+  ];
+
+  return (
+    <aside className="bg-gray-50 rounded-lg border border-gray-200 p-4 space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-800">Commission Preview</h3>
+        <p className="text-xs text-gray-500">{plan.name}</p>
+      </div>
+
+      <dl className="space-y-1">
+        {lines.map(line => (
+          <div key={line.label} className="flex justify-between text-sm">
+            <dt className="text-gray-600">{line.label}</dt>
+            <dd className="text-gray-900">${line.amount.toLocaleString()}</dd>
+          </div>
+        ))}
+        {commissions.creditedPercentage < 100 && (
+          <div className="flex justify-between text-xs text-gray-500">
+            <dt>Your split</dt>
+            <dd>{commissions.creditedPercentage}%</dd>
+          </div>
+        )}
+        <div className="flex justify-between text-sm font-semibold border-t border-gray-200 pt-2">
+          <dt className="text-gray-800">Total</dt>
+          <dd className="text-gray-900">${commissions.totalCommission.toLocaleString()}</dd>
+        </div>
+      </dl>
+
+      {hints.length > 0 && (
+        <div>
+          <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wider mb-2">
+            Next Tier
+          </h4>
+          <ul className="space-y-2">
+            {hints.map(hint => (
+              <li key={hint} className="flex items-start text-xs text-gray-600">
+                <TrendingUp className="h-4 w-4 mr-2 text-green-500 flex-shrink-0" />
+                {hint}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </aside>
+  );
+}
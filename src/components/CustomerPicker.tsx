@@ -0,0 +1,97 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Customer, CustomerContact, describeContact, findDuplicateCustomers, suggestCustomers } from '../lib/customers';
+
+interface CustomerPickerProps {
+  customers: Customer[];
+  name: string;
+  customerId: string;
+  // Contact details typed in for a new customer, checked for duplicates too
+  contact: CustomerContact;
+  onChange: (name: string, customer: Customer | null) => void;
+}
+
+export default function CustomerPicker({ customers, name, customerId, contact, onChange }: CustomerPickerProps) {
+  const [isFocused, setIsFocused] = useState(false);
+  const selected = customers.find(customer => customer.id === customerId) || null;
+
+  const suggestions = useMemo(
+    () => (customerId ? [] : suggestCustomers(name, customers)),
+    [name, customerId, customers]
+  );
+
+  const duplicates = useMemo(
+    () => (customerId ? [] : findDuplicateCustomers(name, contact, customers).slice(0, 3)),
+    [name, customerId, contact, customers]
+  );
+
+  return (
+    <div className="relative">
+      <label className="block text-sm font-medium text-gray-700">
+        Customer Name <span className="text-red-500">*</span>
+      </label>
+      <input
+        type="text"
+        name="customer_name"
+        required
+        autoComplete="off"
+        value={name}
+        onChange={(e) => onChange(e.target.value, null)}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+      />
+
+      {isFocused && suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.map(({ item: customer }) => (
+            <li key={customer.id}>
+              <button
+                type="button"
+                // Keeps the input from blurring, which would close the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => onChange(customer.name, customer)}
+                className="w-full px-3 py-2 text-left text-sm hover:bg-gray-50"
+              >
+                <span className="text-gray-900">{customer.name}</span>
+                {describeContact(customer) && (
+                  <span className="block text-xs text-gray-500">{describeContact(customer)}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <p className="mt-1 text-sm text-green-700">
+          Existing customer{describeContact(selected) && ` · ${describeContact(selected)}`} ·{' '}
+          <Link
+            to={`/customers/${selected.id}`}
+            target="_blank"
+            rel="noreferrer"
+            className="text-blue-600 hover:text-blue-800"
+          >
+            History
+          </Link>
+        </p>
+      )}
+
+      {!selected && name.trim() && !isFocused && duplicates.length > 0 && (
+        <div className="mt-1 text-sm text-amber-700">
+          Possibly an existing customer:
+          {duplicates.map(({ item: customer }) => (
+            <button
+              key={customer.id}
+              type="button"
+              onClick={() => onChange(customer.name, customer)}
+              className="block text-left text-blue-600 hover:text-blue-800"
+            >
+              Use {customer.name}{describeContact(customer) && ` (${describeContact(customer)})`}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,55 +1,33 @@
 // src/components/DashboardStats.tsx
 import React from 'react';
-import { SaleEntry, SpiffEntry, calculateCommissions } from '../lib/supabase';
 import { ArrowUpIcon, ArrowDownIcon } from 'lucide-react';
+import { useCommissionPlans } from '../hooks/useCommissionPlans';
+import { useAuth } from '../hooks/useAuth';
+import { PeriodEntries } from '../lib/supabase';
+import { summarizePeriod } from '../lib/periodSummary';
+import { PayPeriod } from '../lib/payPeriods';
 
 interface DashboardStatsProps {
-  sales: SaleEntry[];
-  spiffs: SpiffEntry[];
+  entries: PeriodEntries;
+  period: PayPeriod;
+  comparisonEntries: PeriodEntries;
+  comparisonPeriod: PayPeriod;
+  comparisonLabel: string;
 }
 
-export default function DashboardStats({ sales, spiffs }: DashboardStatsProps) {
-  const selectedDate = new Date(sales[0]?.date || new Date());
-  const selectedMonth = selectedDate.getMonth();
-  const selectedYear = selectedDate.getFullYear();
+export default function DashboardStats({
+  entries,
+  period,
+  comparisonEntries,
+  comparisonPeriod,
+  comparisonLabel,
+}: DashboardStatsProps) {
+  const { session } = useAuth();
+  const { plans } = useCommissionPlans();
 
-  const previousMonth = selectedMonth === 0 ? 11 : selectedMonth - 1;
-  const previousYear = selectedMonth === 0 ? selectedYear - 1 : selectedYear;
-
-  const filterByMonth = (date: string, month: number, year: number) => {
-    const d = new Date(date);
-    return d.getMonth() === month && d.getFullYear() === year;
-  };
-
-  const currentMonthSales = sales.filter(sale => 
-    filterByMonth(sale.date, selectedMonth, selectedYear)
-  );
-
-  const previousMonthSales = sales.filter(sale => 
-    filterByMonth(sale.date, previousMonth, previousYear)
-  );
-
-  const currentMonthSpiffs = spiffs.filter(spiff => 
-    filterByMonth(spiff.date, selectedMonth, selectedYear)
-  );
-
-  const previousMonthSpiffs = spiffs.filter(spiff => 
-    filterByMonth(spiff.date, previousMonth, previousYear)
-  );
-
-  const calculateStats = (salesData: SaleEntry[], spiffsData: SpiffEntry[]) => ({
-    totalSales: salesData.reduce((sum, sale) => sum + sale.sale_price, 0),
-    usedCars: salesData.filter(sale => sale.sale_type === 'Used').length,
-    newCars: salesData.filter(sale => sale.sale_type === 'New').length,
-    sharedSales: salesData.filter(sale => sale.shared_with_email).length,
-    totalCommissions: salesData.reduce((sum, sale) => {
-      const commissions = calculateCommissions(sale);
-      return sum + commissions.totalCommission;
-    }, 0) + spiffsData.reduce((sum, spiff) => sum + spiff.amount, 0),
-  });
-
-  const currentStats = calculateStats(currentMonthSales, currentMonthSpiffs);
-  const previousStats = calculateStats(previousMonthSales, previousMonthSpiffs);
+  const currentStats = summarizePeriod(entries, period, plans, session?.user.id);
+  const previousStats = summarizePeriod(comparisonEntries, comparisonPeriod, plans, session?.user.id);
+  const { volumeBonus } = currentStats;
 
   const calculateChange = (current: number, previous: number) => {
     if (previous === 0) {
@@ -68,10 +46,35 @@ export default function DashboardStats({ sales, spiffs }: DashboardStatsProps) {
       format: true,
     },
     {
-      title: 'Total Commissions',
-      current: currentStats.totalCommissions,
-      previous: previousStats.totalCommissions,
+      title: 'Earned Commissions',
+      current: currentStats.earnedCommissions,
+      previous: previousStats.earnedCommissions,
       format: true,
+      subtitle: currentStats.chargebackTotal < 0
+        ? `funded · incl. -$${Math.abs(currentStats.chargebackTotal).toLocaleString()} chargebacks`
+        : 'funded deals',
+    },
+    {
+      title: 'Pending Commissions',
+      current: currentStats.pendingCommissions,
+      previous: previousStats.pendingCommissions,
+      format: true,
+      subtitle: 'awaiting delivery or funding',
+    },
+    {
+      title: 'Spiffs',
+      current: currentStats.spiffTotal,
+      previous: previousStats.spiffTotal,
+      format: true,
+      subtitle: currentStats.pendingSpiffTotal > 0
+        ? `approved · $${currentStats.pendingSpiffTotal.toLocaleString()} pending approval`
+        : 'approved',
+    },
+    {
+      title: 'Funded Units',
+      current: currentStats.units,
+      previous: previousStats.units,
+      subtitle: 'shared deals count by split',
     },
     {
       title: 'Used Cars',
@@ -91,10 +94,25 @@ export default function DashboardStats({ sales, spiffs }: DashboardStatsProps) {
       previous: previousStats.sharedSales,
       subtitle: 'total shared',
     },
+    {
+      title: 'Volume Bonus',
+      current: volumeBonus.bonus,
+      previous: previousStats.volumeBonus.bonus,
+      format: true,
+      subtitle: `${volumeBonus.units} funded units this month${
+        currentStats.pendingUnits > 0 ? ` · ${currentStats.pendingUnits} pending` : ''
+      }${volumeBonus.paidInPeriod ? '' : ' · paid at month end'}`,
+      progress: volumeBonus.nextTier
+        ? {
+            value: volumeBonus.units / volumeBonus.nextTier.min_units,
+            label: `${volumeBonus.unitsToNextTier} more units earns $${volumeBonus.nextTier.amount.toLocaleString()}`,
+          }
+        : undefined,
+    },
   ];
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
       {stats.map((stat, index) => {
         const change = calculateChange(stat.current, stat.previous);
         return (
@@ -107,6 +125,17 @@ export default function DashboardStats({ sales, spiffs }: DashboardStatsProps) {
               {stat.subtitle && (
                 <p className="text-xs text-gray-500 -mt-1">{stat.subtitle}</p>
               )}
+              {stat.progress && (
+                <div>
+                  <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-[#E60012]"
+                      style={{ width: `${Math.min(100, stat.progress.value * 100)}%` }}
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">{stat.progress.label}</p>
+                </div>
+              )}
               <div className="flex items-center space-x-1">
                 {change.increase ? (
                   <ArrowUpIcon className="h-4 w-4 text-green-500" />
@@ -124,7 +153,7 @@ export default function DashboardStats({ sales, spiffs }: DashboardStatsProps) {
                     : Math.abs(change.value)}
                   {` (${Math.abs(change.percentage).toFixed(1)}%)`}
                 </span>
-                <span className="text-xs text-gray-500">vs last month</span>
+                <span className="text-xs text-gray-500">vs {comparisonLabel}</span>
               </div>
             </div>
           </div>
@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format, startOfYear } from 'date-fns';
+import { usePayPeriod } from '../hooks/usePayPeriod';
+import { DateRange, PayPeriod, formatPayPeriod, toDateRange } from '../lib/payPeriods';
+import { ExportFormat } from '../lib/salesGrid';
+
+type ExportRange = 'period' | 'custom' | 'ytd';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  period: PayPeriod;
+  onExport: (range: DateRange, exportFormat: ExportFormat, isCurrentPeriod: boolean) => Promise<void>;
+}
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+export default function ExportModal({ isOpen, onClose, period, onExport }: ExportModalProps) {
+  const { definition } = usePayPeriod();
+  const [range, setRange] = useState<ExportRange>('period');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+  const [customRange, setCustomRange] = useState<DateRange>(toDateRange(period));
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setCustomRange(toDateRange(period));
+    }
+  }, [isOpen, period]);
+
+  if (!isOpen) return null;
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const dateRange = range === 'period'
+      ? toDateRange(period)
+      : range === 'ytd'
+        ? { startDate: format(startOfYear(new Date()), 'yyyy-MM-dd'), endDate: today }
+        : customRange;
+
+    if (!dateRange.startDate || !dateRange.endDate || dateRange.startDate > dateRange.endDate) {
+      toast.error('Please choose a valid date range');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      await onExport(dateRange, exportFormat, range === 'period');
+      onClose();
+    } catch (error: any) {
+      console.error('Error exporting sales:', error);
+      toast.error('Error exporting sales');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-md bg-white rounded-lg shadow-xl" onClick={e => e.stopPropagation()}>
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-2xl font-bold">Export Sales</h2>
+              <button
+                onClick={onClose}
+                className="text-gray-500 hover:text-gray-700 transition-colors"
+                type="button"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-600">
+              Rows are exported with the grid's current status filter and sort order.
+            </p>
+
+            <fieldset className="space-y-2">
+              <legend className="block text-sm font-medium text-gray-700">Date Range</legend>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={range === 'period'}
+                  onChange={() => setRange('period')}
+                  className="mr-2"
+                />
+                {formatPayPeriod(period, definition)}
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={range === 'ytd'}
+                  onChange={() => setRange('ytd')}
+                  className="mr-2"
+                />
+                Year to date
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={range === 'custom'}
+                  onChange={() => setRange('custom')}
+                  className="mr-2"
+                />
+                Custom range
+              </label>
+            </fieldset>
+
+            {range === 'custom' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">From</label>
+                  <input
+                    type="date"
+                    required
+                    value={customRange.startDate}
+                    max={today}
+                    onChange={(e) => setCustomRange(prev => ({ ...prev, startDate: e.target.value }))}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">To</label>
+                  <input
+                    type="date"
+                    required
+                    value={customRange.endDate}
+                    onChange={(e) => setCustomRange(prev => ({ ...prev, endDate: e.target.value }))}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Format</label>
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                className={inputClassName}
+              >
+                <option value="xlsx">Excel (.xlsx)</option>
+                <option value="csv">CSV (.csv)</option>
+              </select>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isExporting}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isExporting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isExporting ? 'Exporting...' : 'Export'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
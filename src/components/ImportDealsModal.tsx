@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { X, Upload } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../hooks/useAuth';
+import { useCommissionPlans } from '../hooks/useCommissionPlans';
+import {
+  calculateCommissions,
+  createIncentiveSpiffs,
+  getExistingStockNumbers,
+  getIncentivePrograms,
+  importSales,
+} from '../lib/supabase';
+import { IncentiveProgram, matchIncentivePrograms } from '../lib/incentives';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportRow,
+  ImportSheet,
+  buildImportRows,
+  guessColumnMapping,
+  readImportFile,
+} from '../lib/dealImport';
+
+type ImportStep = 'upload' | 'map' | 'preview';
+
+interface ImportDealsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export default function ImportDealsModal({ isOpen, onClose, onImported }: ImportDealsModalProps) {
+  const { session } = useAuth();
+  const { plans } = useCommissionPlans();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [programs, setPrograms] = useState<IncentiveProgram[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  if (!isOpen) return null;
+
+  const validRows = rows.filter(row => row.errors.length === 0 && !row.duplicate);
+
+  const handleClose = () => {
+    setStep('upload');
+    setSheet(null);
+    setMapping(null);
+    setRows([]);
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const data = await readImportFile(file);
+      if (data.rows.length === 0) {
+        toast.error('The file has no rows to import');
+        return;
+      }
+      setSheet(data);
+      setMapping(guessColumnMapping(data.headers));
+      setStep('map');
+    } catch (error: any) {
+      console.error('Error reading import file:', error);
+      toast.error('Could not read that file');
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!sheet || !mapping || !session?.user?.id) return;
+
+    const missing = IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] < 0);
+    if (missing.length > 0) {
+      toast.error(`Please map ${missing.map(({ label }) => label).join(', ')}`);
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const stockNumbers = sheet.rows.map(row => row[mapping.stock_number]).filter(Boolean);
+      const [existing, incentivePrograms] = await Promise.all([
+        getExistingStockNumbers([...new Set(stockNumbers)]),
+        getIncentivePrograms(),
+      ]);
+      setPrograms(incentivePrograms);
+      setRows(buildImportRows(sheet, mapping, session.user.id, existing));
+      setStep('preview');
+    } catch (error: any) {
+      console.error('Error preparing import:', error);
+      toast.error('Error checking for duplicate deals');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+
+    setIsWorking(true);
+    try {
+      const { sales } = await importSales(validRows.map(row => row.sale));
+      const claims = sales.flatMap(sale =>
+        matchIncentivePrograms(sale, programs).map(program => ({ sale, program }))
+      );
+      await createIncentiveSpiffs(claims);
+      toast.success(`Imported ${validRows.length} deals${
+        claims.length > 0 ? ` and submitted ${claims.length} incentive spiffs` : ''
+      }`);
+      onImported();
+      handleClose();
+    } catch (error: any) {
+      console.error('Error importing deals:', error);
+      toast.error(error.message || 'Error importing deals');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={handleClose} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div
+          className={`relative w-full ${step === 'preview' ? 'max-w-6xl' : 'max-w-2xl'} bg-white rounded-lg shadow-xl`}
+          onClick={e => e.stopPropagation()}
+        >
+          <div className="p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-2xl font-bold">Import Deals</h2>
+              <button
+                onClick={handleClose}
+                className="text-gray-500 hover:text-gray-700 transition-colors"
+                type="button"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            {step === 'upload' && (
+              <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-10 cursor-pointer hover:border-blue-500">
+                <Upload className="h-8 w-8 text-gray-400 mb-2" />
+                <span className="text-sm text-gray-600">Choose a CSV or Excel export from the DMS</span>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,.xls"
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+              </label>
+            )}
+
+            {step === 'map' && sheet && mapping && (
+              <>
+                <p className="text-sm text-gray-600">
+                  {sheet.rows.length} rows found. Match each field to a column in the file.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-gray-700">
+                        {label} {required && <span className="text-red-500">*</span>}
+                      </label>
+                      <select
+                        value={mapping[field]}
+                        onChange={(e) => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      >
+                        <option value={-1}>— Not in file —</option>
+                        {sheet.headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {step === 'preview' && (
+              <>
+                <p className="text-sm text-gray-600">
+                  {validRows.length} of {rows.length} rows will be imported as delivered deals.
+                  Rows with errors or duplicate stock numbers are skipped. Matching incentive
+                  programs are submitted as spiffs for approval.
+                </p>
+                <div className="overflow-x-auto max-h-[60vh] border border-gray-200 rounded-md">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        {['Row', 'Date', 'Stock #', 'Customer', 'Type', 'Price', 'Commission', 'Incentives', 'Issues'].map(title => (
+                          <th key={title} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                            {title}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {rows.map(row => {
+                        const skipped = row.errors.length > 0 || row.duplicate;
+                        const commission = skipped ? null : calculateCommissions(
+                          { ...row.sale, id: `import-${row.rowNumber}` },
+                          plans,
+                          session?.user.id
+                        ).totalCommission;
+                        const incentives = skipped ? [] : matchIncentivePrograms(
+                          { ...row.sale, id: `import-${row.rowNumber}` },
+                          programs
+                        );
+
+                        return (
+                          <tr key={row.rowNumber} className={skipped ? 'bg-red-50' : ''}>
+                            <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                            <td className="px-3 py-2 whitespace-nowrap">{row.sale.date}</td>
+                            <td className="px-3 py-2 whitespace-nowrap">{row.sale.stock_number}</td>
+                            <td className="px-3 py-2 whitespace-nowrap">{row.sale.customer_name}</td>
+                            <td className="px-3 py-2">{row.sale.sale_type}</td>
+                            <td className="px-3 py-2 text-right">${row.sale.sale_price.toLocaleString()}</td>
+                            <td className="px-3 py-2 text-right">
+                              {commission === null ? '-' : `$${commission.toLocaleString()}`}
+                            </td>
+                            <td className="px-3 py-2 whitespace-nowrap">
+                              {incentives.map(program => program.name).join(', ')}
+                            </td>
+                            <td className="px-3 py-2 text-red-600">
+                              {[...(row.duplicate ? ['Duplicate stock number'] : []), ...row.errors].join('; ')}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              {step !== 'upload' && (
+                <button
+                  type="button"
+                  onClick={() => setStep(step === 'preview' ? 'map' : 'upload')}
+                  disabled={isWorking}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Back
+                </button>
+              )}
+              {step === 'map' && (
+                <button
+                  type="button"
+                  onClick={handlePreview}
+                  disabled={isWorking}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isWorking ? 'Checking...' : 'Preview'}
+                </button>
+              )}
+              {step === 'preview' && (
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={isWorking || validRows.length === 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isWorking ? 'Importing...' : `Import ${validRows.length} Deals`}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
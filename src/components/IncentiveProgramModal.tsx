@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../hooks/useAuth';
+import { SaleEntry, saveIncentiveProgram } from '../lib/supabase';
+import { INCENTIVE_PRODUCT_LABELS, IncentiveProduct, IncentiveProgram } from '../lib/incentives';
+
+interface IncentiveProgramModalProps {
+  isOpen: boolean;
+  program: IncentiveProgram | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+const SALE_TYPES: SaleEntry['sale_type'][] = ['New', 'Used', 'Trade-In'];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export default function IncentiveProgramModal({ isOpen, program, onClose, onSaved }: IncentiveProgramModalProps) {
+  const { session } = useAuth();
+  const [name, setName] = useState('');
+  const [amount, setAmount] = useState('');
+  const [startDate, setStartDate] = useState(today());
+  const [endDate, setEndDate] = useState(today());
+  const [saleTypes, setSaleTypes] = useState<SaleEntry['sale_type'][]>([]);
+  const [model, setModel] = useState('');
+  const [minProduct, setMinProduct] = useState<IncentiveProduct | ''>('');
+  const [minProductPrice, setMinProductPrice] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setName(program?.name || '');
+    setAmount(program ? String(program.amount) : '');
+    setStartDate(program?.start_date || today());
+    setEndDate(program?.end_date || today());
+    setSaleTypes(program?.sale_types || []);
+    setModel(program?.model || '');
+    setMinProduct(program?.min_product || '');
+    setMinProductPrice(program?.min_product_price ? String(program.min_product_price) : '');
+  }, [isOpen, program]);
+
+  if (!isOpen) return null;
+
+  const toggleSaleType = (saleType: SaleEntry['sale_type']) => {
+    setSaleTypes(prev =>
+      prev.includes(saleType) ? prev.filter(type => type !== saleType) : [...prev, saleType]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !(Number(amount) > 0)) {
+      toast.error('Please enter a name and an amount');
+      return;
+    }
+
+    if (!startDate || !endDate || endDate < startDate) {
+      toast.error('The program must end on or after its start date');
+      return;
+    }
+
+    if (!session?.user?.id) return;
+
+    setIsSubmitting(true);
+    try {
+      await saveIncentiveProgram({
+        id: program?.id,
+        name: name.trim(),
+        amount: Number(amount),
+        start_date: startDate,
+        end_date: endDate,
+        sale_types: saleTypes,
+        model: model.trim() || null,
+        min_product: minProduct || null,
+        min_product_price: minProduct ? Number(minProductPrice) || 0 : 0,
+        active: program?.active ?? true,
+      }, session.user.id);
+      toast.success(program ? 'Incentive program updated' : 'Incentive program added');
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving incentive program:', error);
+      toast.error(error.message || 'Error saving incentive program');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-md bg-white rounded-lg shadow-xl" onClick={e => e.stopPropagation()}>
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-2xl font-bold">{program ? 'Edit Program' : 'New Program'}</h2>
+              <button
+                onClick={onClose}
+                className="text-gray-500 hover:text-gray-700 transition-colors"
+                type="button"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={inputClassName}
+                placeholder="e.g. Outlander PHEV March spiff"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Spiff Amount <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                required
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Starts <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Ends <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700">Sale Types</span>
+              <div className="mt-1 flex space-x-4">
+                {SALE_TYPES.map(saleType => (
+                  <label key={saleType} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={saleTypes.includes(saleType)}
+                      onChange={() => toggleSaleType(saleType)}
+                      className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {saleType}
+                  </label>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">Leave all unchecked for any sale type</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Model</label>
+              <input
+                type="text"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                className={inputClassName}
+                placeholder="Any model"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Requires</label>
+                <select
+                  value={minProduct}
+                  onChange={(e) => setMinProduct(e.target.value as IncentiveProduct | '')}
+                  className={inputClassName}
+                >
+                  <option value="">No product</option>
+                  {Object.entries(INCENTIVE_PRODUCT_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              {minProduct && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Minimum Price</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={minProductPrice}
+                    onChange={(e) => setMinProductPrice(e.target.value)}
+                    className={inputClassName}
+                    placeholder="Any amount"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isSubmitting}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Save Program'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
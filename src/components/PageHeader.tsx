@@ -0,0 +1,31 @@
+import React from 'react';
+
+interface PageHeaderProps {
+  subtitle: string;
+  children?: React.ReactNode;
+}
+
+export default function PageHeader({ subtitle, children }: PageHeaderProps) {
+  return (
+    <nav className="bg-[#000000] shadow-sm print:hidden">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between h-16">
+          <div className="flex items-center space-x-4">
+            <img 
+              src="https://www.mitsubishi-motors.com/content/dam/com/about-us/CI/logo.png" 
+              alt="Mitsubishi Logo" 
+              className="h-8"
+            />
+            <div>
+              <h1 className="text-xl font-bold text-white">Daly City Mitsubishi</h1>
+              <p className="text-sm text-gray-300">{subtitle}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-4">
+            {children}
+          </div>
+        </div>
+      </div>
+    </nav>
+  );
+}
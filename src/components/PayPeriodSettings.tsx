@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../hooks/useAuth';
+import { usePayPeriod } from '../hooks/usePayPeriod';
+import { updatePayPeriodDefinition } from '../lib/supabase';
+import { PAY_PERIOD_LABELS, PayPeriodType } from '../lib/payPeriods';
+
+export default function PayPeriodSettings() {
+  const { session } = useAuth();
+  const { definition, refreshDefinition } = usePayPeriod();
+  const [type, setType] = useState<PayPeriodType>(definition.type);
+  const [anchorDate, setAnchorDate] = useState(definition.anchor_date || '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setType(definition.type);
+    setAnchorDate(definition.anchor_date || '');
+  }, [definition]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (type === 'bi-weekly' && !anchorDate) {
+      toast.error('Bi-weekly pay periods need the first day of a pay period');
+      return;
+    }
+
+    if (!session?.user?.id) return;
+
+    setIsSubmitting(true);
+    try {
+      await updatePayPeriodDefinition(
+        type === 'bi-weekly' ? { type, anchor_date: anchorDate } : { type },
+        session.user.id
+      );
+      toast.success('Pay period updated successfully');
+      await refreshDefinition();
+    } catch (error: any) {
+      console.error('Error updating pay period:', error);
+      toast.error(error.message || 'Error updating pay period');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Pay Period</h2>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Schedule</label>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as PayPeriodType)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              {Object.entries(PAY_PERIOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          {type === 'bi-weekly' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                First Day of a Pay Period <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="date"
+                required
+                value={anchorDate}
+                onChange={(e) => setAnchorDate(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-gray-500">
+          Drives the dashboard period selector and period-over-period comparisons.
+          Volume bonuses stay monthly and are paid in the period holding the month's last day.
+        </p>
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Saving...' : 'Save Pay Period'}
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
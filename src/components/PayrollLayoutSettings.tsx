@@ -0,0 +1,267 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { useAuth } from '../hooks/useAuth';
+import { updatePayrollLayout } from '../lib/supabase';
+import {
+  EARNINGS_CATEGORY_LABELS,
+  EarningsCategory,
+  PAYROLL_FIELD_LABELS,
+  PayrollField,
+  PayrollLayout,
+} from '../lib/payrollLayout';
+
+interface PayrollLayoutSettingsProps {
+  layout: PayrollLayout;
+  onSaved: () => void;
+}
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+export default function PayrollLayoutSettings({ layout, onSaved }: PayrollLayoutSettingsProps) {
+  const { session } = useAuth();
+  const [draft, setDraft] = useState<PayrollLayout>(layout);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setDraft(layout);
+  }, [layout]);
+
+  const updateColumn = (index: number, changes: Partial<PayrollLayout['columns'][number]>) => {
+    setDraft(prev => ({
+      ...prev,
+      columns: prev.columns.map((column, i) => (i === index ? { ...column, ...changes } : column)),
+    }));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setDraft(prev => {
+      const columns = [...prev.columns];
+      const [column] = columns.splice(index, 1);
+      columns.splice(index + offset, 0, column);
+      return { ...prev, columns };
+    });
+  };
+
+  const addColumn = () => {
+    setDraft(prev => ({
+      ...prev,
+      columns: [...prev.columns, { field: 'amount', header: '', width: 10 }],
+    }));
+  };
+
+  const removeColumn = (index: number) => {
+    setDraft(prev => ({ ...prev, columns: prev.columns.filter((_, i) => i !== index) }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (draft.columns.length === 0) {
+      toast.error('The layout needs at least one column');
+      return;
+    }
+
+    if (draft.format === 'csv' && !draft.delimiter) {
+      toast.error('Please enter a delimiter');
+      return;
+    }
+
+    if (draft.format === 'fixed-width' && draft.columns.some(column => !(column.width > 0))) {
+      toast.error('Every fixed-width column needs a width');
+      return;
+    }
+
+    try {
+      format(new Date(), draft.date_format);
+    } catch {
+      toast.error('Please enter a valid date format, e.g. MM/dd/yyyy');
+      return;
+    }
+
+    if (Object.values(draft.earnings_codes).some(code => !code)) {
+      toast.error('Every earnings category needs a code');
+      return;
+    }
+
+    if (!session?.user?.id) return;
+
+    setIsSubmitting(true);
+    try {
+      await updatePayrollLayout(draft, session.user.id);
+      toast.success('Payroll layout updated successfully');
+      onSaved();
+    } catch (error: any) {
+      console.error('Error updating payroll layout:', error);
+      toast.error(error.message || 'Error updating payroll layout');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Export Layout</h2>
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">File Format</label>
+            <select
+              value={draft.format}
+              onChange={(e) => setDraft({ ...draft, format: e.target.value as PayrollLayout['format'] })}
+              className={inputClassName}
+            >
+              <option value="csv">Delimited (CSV)</option>
+              <option value="fixed-width">Fixed width</option>
+            </select>
+          </div>
+          {draft.format === 'csv' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Delimiter</label>
+              <input
+                type="text"
+                maxLength={1}
+                value={draft.delimiter}
+                onChange={(e) => setDraft({ ...draft, delimiter: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Amounts</label>
+            <select
+              value={draft.amount_format}
+              onChange={(e) => setDraft({ ...draft, amount_format: e.target.value as PayrollLayout['amount_format'] })}
+              className={inputClassName}
+            >
+              <option value="decimal">Dollars (1234.56)</option>
+              <option value="cents">Cents (123456)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Date Format</label>
+            <input
+              type="text"
+              value={draft.date_format}
+              onChange={(e) => setDraft({ ...draft, date_format: e.target.value })}
+              className={inputClassName}
+              placeholder="MM/dd/yyyy"
+            />
+          </div>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.include_header}
+              onChange={(e) => setDraft({ ...draft, include_header: e.target.checked })}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Include a header line
+          </label>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-gray-700">Columns</h3>
+            <button
+              type="button"
+              onClick={addColumn}
+              className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Column
+            </button>
+          </div>
+          <div className="mt-2 space-y-2">
+            {draft.columns.map((column, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <select
+                  value={column.field}
+                  onChange={(e) => updateColumn(index, { field: e.target.value as PayrollField })}
+                  className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                >
+                  {Object.entries(PAYROLL_FIELD_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={column.header}
+                  onChange={(e) => updateColumn(index, { header: e.target.value })}
+                  placeholder="Header"
+                  className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                />
+                {draft.format === 'fixed-width' && (
+                  <input
+                    type="number"
+                    min="1"
+                    value={column.width}
+                    onChange={(e) => updateColumn(index, { width: Number(e.target.value) })}
+                    className="w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                    title="Width"
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() => moveColumn(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveColumn(index, 1)}
+                  disabled={index === draft.columns.length - 1}
+                  className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeColumn(index)}
+                  className="p-1 text-red-600 hover:text-red-800"
+                  title="Remove column"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Earnings Codes</h3>
+          <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(Object.keys(EARNINGS_CATEGORY_LABELS) as EarningsCategory[]).map(category => (
+              <div key={category}>
+                <label className="block text-sm text-gray-600">{EARNINGS_CATEGORY_LABELS[category]}</label>
+                <input
+                  type="text"
+                  value={draft.earnings_codes[category]}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    earnings_codes: { ...draft.earnings_codes, [category]: e.target.value },
+                  })}
+                  className={inputClassName}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Saving...' : 'Save Layout'}
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
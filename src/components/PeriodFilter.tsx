@@ -0,0 +1,48 @@
+// src/components/PeriodFilter.tsx
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { usePayPeriod } from '../hooks/usePayPeriod';
+import {
+  formatPayPeriod,
+  getNextPayPeriod,
+  getPayPeriod,
+  getPreviousPayPeriod,
+} from '../lib/payPeriods';
+
+interface PeriodFilterProps {
+  currentDate: Date;
+  onDateChange: (date: Date) => void;
+}
+
+export default function PeriodFilter({ currentDate, onDateChange }: PeriodFilterProps) {
+  const { definition } = usePayPeriod();
+  const period = getPayPeriod(currentDate, definition);
+
+  const handlePreviousPeriod = () => {
+    onDateChange(getPreviousPayPeriod(period, definition).start);
+  };
+
+  const handleNextPeriod = () => {
+    onDateChange(getNextPayPeriod(period, definition).start);
+  };
+
+  return (
+    <div className="flex items-center space-x-4">
+      <button
+        onClick={handlePreviousPeriod}
+        className="p-2 hover:bg-gray-100 rounded-full"
+      >
+        <ChevronLeft className="h-5 w-5" />
+      </button>
+      <span className="text-lg font-medium">
+        {formatPayPeriod(period, definition)}
+      </span>
+      <button
+        onClick={handleNextPeriod}
+        className="p-2 hover:bg-gray-100 rounded-full"
+        disabled={period.end >= new Date()}
+      >
+        <ChevronRight className="h-5 w-5" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { SpiffEntry, reviewSpiff } from '../lib/supabase';
+
+interface RejectSpiffModalProps {
+  spiff: SpiffEntry | null;
+  onClose: () => void;
+  onRejected: () => void;
+}
+
+export default function RejectSpiffModal({ spiff, onClose, onRejected }: RejectSpiffModalProps) {
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (spiff) {
+      setReason('');
+    }
+  }, [spiff]);
+
+  if (!spiff) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason.trim()) {
+      toast.error('Please enter a reason for the salesperson');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await reviewSpiff(spiff.id, 'rejected', reason.trim());
+      toast.success('Spiff rejected');
+      onRejected();
+      onClose();
+    } catch (error: any) {
+      console.error('Error rejecting spiff:', error);
+      toast.error(error.message || 'Error rejecting spiff');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-md bg-white rounded-lg shadow-xl" onClick={e => e.stopPropagation()}>
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-2xl font-bold">Reject Spiff</h2>
+              <button
+                onClick={onClose}
+                className="text-gray-500 hover:text-gray-700 transition-colors"
+                type="button"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-600">
+              ${Number(spiff.amount).toLocaleString()} on {new Date(spiff.date).toLocaleDateString()}. The
+              salesperson is notified with your reason and can correct and resubmit the spiff.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Reason <span className="text-red-500">*</span>
+              </label>
+              <textarea
+                required
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                rows={3}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isSubmitting}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-[#E60012] text-white rounded-md hover:bg-[#cc0010] disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Reject Spiff'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
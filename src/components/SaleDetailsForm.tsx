@@ -1,22 +1,68 @@
-import React, { useState, useEffect, memo } from 'react';
-import { supabase, getUserIdFromEmail } from '../lib/supabase';
+import React, { useState, useEffect, useMemo, memo } from 'react';
+import {
+  supabase,
+  getUserIdFromEmail,
+  getClaimedProgramIds,
+  getIncentivePrograms,
+  createIncentiveSpiffs,
+  lookupVehicle,
+  getCustomers,
+  createCustomer,
+  saveSaleShares,
+  isActiveShare,
+  SHARE_STATUS_LABELS,
+  SaleEntry,
+  SaleShare,
+  ShareParticipant,
+  ShareStatus,
+} from '../lib/supabase';
+import { IncentiveProgram, describeEligibility, matchIncentivePrograms } from '../lib/incentives';
+import {
+  Vehicle,
+  describeVehicle,
+  getDaysInStock,
+  getVehicleModel,
+  isSoldElsewhere,
+  normalizeStockNumber,
+} from '../lib/inventory';
+import { Customer, CustomerContact } from '../lib/customers';
+import { decodeVin, describeDecodedVin, normalizeVin, validateVin } from '../lib/vin';
 import { useAuth } from '../hooks/useAuth';
 import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { Plus, X } from 'lucide-react';
+import CommissionPreview from './CommissionPreview';
+import CustomerPicker from './CustomerPicker';
 
 interface FormData {
   stock_number: string;
   customer_name: string;
+  customer_id: string;
   sale_type: 'New' | 'Used' | 'Trade-In';
+  vin: string;
+  vehicle_year: string;
+  vehicle_make: string;
+  vehicle_model: string;
   sale_price: string;
   accessories_price: string;
   warranty_price: string;
   warranty_cost: string;
   maintenance_price: string;
   maintenance_cost: string;
-  shared_with_email: string;
   date: string;
 }
 
+interface Participant {
+  email: string;
+  percentage: string;
+  // The share already on the sale; changing the email re-targets it
+  shareId?: string;
+  status?: ShareStatus;
+  counterPercentage?: number | null;
+  // Edited terms are offered again on save
+  edited?: boolean;
+}
+
 interface SaleDetailsFormProps {
   onClose: () => void;
   onSaleAdded: () => void;
@@ -26,40 +72,192 @@ interface SaleDetailsFormProps {
 const defaultFormData: FormData = {
   stock_number: '',
   customer_name: '',
+  customer_id: '',
   sale_type: 'Used',
+  vin: '',
+  vehicle_year: '',
+  vehicle_make: '',
+  vehicle_model: '',
   sale_price: '',
   accessories_price: '',
   warranty_price: '',
   warranty_cost: '',
   maintenance_price: '',
   maintenance_cost: '',
-  shared_with_email: '',
   date: new Date().toISOString().split('T')[0],
 };
 
+const roundPercentage = (value: number) => Math.round(value * 100) / 100;
+
+// Everyone's split when a sale is divided evenly between the seller and
+// `count` participants; the seller absorbs the rounding
+function splitEvenly(count: number) {
+  const share = Math.floor(10000 / (count + 1)) / 100;
+  return { share, seller: roundPercentage(100 - share * count) };
+}
+
 const SaleDetailsForm = ({ onClose, onSaleAdded, editSale }: SaleDetailsFormProps) => {
   const { session } = useAuth();
   const [formData, setFormData] = useState<FormData>(defaultFormData);
   const [isShared, setIsShared] = useState(false);
+  const [sellerPercentage, setSellerPercentage] = useState('100');
+  const [participants, setParticipants] = useState<Participant[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [programs, setPrograms] = useState<IncentiveProgram[]>([]);
+  const [claimedProgramIds, setClaimedProgramIds] = useState<Set<string>>(new Set());
+  const [skippedProgramIds, setSkippedProgramIds] = useState<Set<string>>(new Set());
+  const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [newCustomerContact, setNewCustomerContact] = useState<CustomerContact>({ phone: '', email: '', address: '' });
+  const [stockLookup, setStockLookup] = useState<'idle' | 'searching' | 'done'>('idle');
+
+  useEffect(() => {
+    getIncentivePrograms()
+      .then(setPrograms)
+      .catch(error => console.error('Error fetching incentive programs:', error));
+    getCustomers()
+      .then(setCustomers)
+      .catch(error => console.error('Error fetching customers:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!editSale) return;
+
+    getClaimedProgramIds(editSale.id)
+      .then(setClaimedProgramIds)
+      .catch(error => console.error('Error fetching claimed incentives:', error));
+  }, [editSale]);
 
   useEffect(() => {
     if (editSale) {
+      const activeShares = ((editSale.sale_shares || []) as SaleShare[]).filter(isActiveShare);
       setFormData({
-        ...editSale,
+        stock_number: editSale.stock_number,
+        customer_name: editSale.customer_name,
+        customer_id: editSale.customer_id || '',
+        sale_type: editSale.sale_type,
+        vin: editSale.vin || '',
+        vehicle_year: editSale.vehicle_year ? String(editSale.vehicle_year) : '',
+        vehicle_make: editSale.vehicle_make || '',
+        vehicle_model: editSale.vehicle_model || '',
         sale_price: String(editSale.sale_price),
         accessories_price: String(editSale.accessories_price || ''),
         warranty_price: String(editSale.warranty_price || ''),
         warranty_cost: String(editSale.warranty_cost || ''),
         maintenance_price: String(editSale.maintenance_price || ''),
         maintenance_cost: String(editSale.maintenance_cost || ''),
-        shared_with_email: editSale.shared_with_email || '',
         date: editSale.date.split('T')[0],
       });
-      setIsShared(!!editSale.shared_with_email);
+      setIsShared(activeShares.length > 0);
+      setParticipants(activeShares.map(share => ({
+        email: share.email,
+        percentage: String(Number(share.percentage)),
+        shareId: share.id,
+        status: share.status,
+        counterPercentage: share.counter_percentage,
+      })));
+      setSellerPercentage(String(roundPercentage(
+        100 - activeShares.reduce((sum, share) => sum + Number(share.percentage), 0)
+      )));
     }
   }, [editSale]);
 
+  // Looks the stock number up as it's typed. A match fills in the sale type
+  // and vehicle, except on the stock number the sale was saved with.
+  useEffect(() => {
+    const stockNumber = formData.stock_number.trim();
+    if (!stockNumber) {
+      setVehicle(null);
+      setStockLookup('idle');
+      return;
+    }
+
+    let cancelled = false;
+    setStockLookup('searching');
+    const timer = setTimeout(async () => {
+      try {
+        const match = await lookupVehicle(stockNumber);
+        if (cancelled) return;
+
+        setVehicle(match);
+        setStockLookup('done');
+        if (match && normalizeStockNumber(editSale?.stock_number || '') !== match.stock_number) {
+          setFormData(prev => ({
+            ...prev,
+            sale_type: match.condition,
+            vin: match.vin || prev.vin,
+            vehicle_year: match.year ? String(match.year) : prev.vehicle_year,
+            vehicle_make: match.make,
+            vehicle_model: getVehicleModel(match),
+          }));
+        }
+      } catch {
+        if (!cancelled) setStockLookup('idle');
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData.stock_number, editSale]);
+
+  const decodedVin = useMemo(() => decodeVin(formData.vin), [formData.vin]);
+  const vinError = normalizeVin(formData.vin).length >= 17 ? validateVin(formData.vin) : null;
+
+  const previewSale = useMemo<SaleEntry>(() => ({
+    id: editSale?.id || 'preview',
+    user_id: session?.user.id || '',
+    stock_number: formData.stock_number,
+    customer_name: formData.customer_name,
+    sale_type: formData.sale_type,
+    vehicle_model: formData.vehicle_model,
+    sale_price: Number(formData.sale_price) || 0,
+    accessories_price: Number(formData.accessories_price) || 0,
+    warranty_price: Number(formData.warranty_price) || 0,
+    warranty_cost: Number(formData.warranty_cost) || 0,
+    maintenance_price: Number(formData.maintenance_price) || 0,
+    maintenance_cost: Number(formData.maintenance_cost) || 0,
+    trade_in_commission: editSale?.trade_in_commission,
+    // Participants are only resolved on save; placeholder shares, taken as
+    // accepted, give the seller's side of the agreed split
+    sale_shares: isShared
+      ? participants
+        .filter(participant => Number(participant.percentage) > 0)
+        .map((participant, index) => ({
+          id: `preview-${index}`,
+          sale_id: editSale?.id || 'preview',
+          user_id: `preview-${index}`,
+          email: participant.email,
+          percentage: Number(participant.percentage),
+          status: 'accepted',
+        }))
+      : [],
+    date: formData.date || defaultFormData.date,
+  }), [formData, isShared, participants, editSale, session?.user.id]);
+
+  const splitTotal = roundPercentage(
+    (Number(sellerPercentage) || 0) +
+    participants.reduce((sum, participant) => sum + (Number(participant.percentage) || 0), 0)
+  );
+
+  const matchingPrograms = useMemo(
+    () => matchIncentivePrograms(previewSale, programs, claimedProgramIds),
+    [previewSale, programs, claimedProgramIds]
+  );
+
+  const toggleProgram = (programId: string) => {
+    setSkippedProgramIds(prev => {
+      const next = new Set(prev);
+      if (next.has(programId)) {
+        next.delete(programId);
+      } else {
+        next.add(programId);
+      }
+      return next;
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -68,44 +266,94 @@ const SaleDetailsForm = ({ onClose, onSaleAdded, editSale }: SaleDetailsFormProp
       return;
     }
 
-    if (isShared && !formData.shared_with_email) {
-      toast.error('Please enter an email for shared sale');
+    if (formData.vin && validateVin(formData.vin)) {
+      toast.error(`Check the VIN: ${validateVin(formData.vin)}`);
+      return;
+    }
+
+    const shareError = isShared ? validateParticipants() : null;
+    if (shareError) {
+      toast.error(shareError);
       return;
     }
 
     setIsSubmitting(true);
     try {
-      let shared_with_id = null;
-      if (isShared && formData.shared_with_email) {
-        shared_with_id = await getUserIdFromEmail(formData.shared_with_email);
-        if (!shared_with_id) {
-          toast.error('User not found with the provided email');
+      const shareParticipants: ShareParticipant[] = [];
+      for (const participant of isShared ? participants : []) {
+        const email = participant.email.trim();
+        const userId = await getUserIdFromEmail(email);
+        if (!userId) {
+          toast.error(`No salesperson found with the email ${email}`);
           setIsSubmitting(false);
           return;
         }
+        shareParticipants.push({
+          share_id: participant.shareId,
+          user_id: userId,
+          email,
+          percentage: Number(participant.percentage),
+        });
+      }
+
+      // A name that wasn't picked from the list becomes a new customer. It's
+      // kept on the form so a retry after a failed save doesn't add it twice.
+      let customerId = formData.customer_id;
+      if (!customerId && session?.user.id) {
+        const customer = await createCustomer(formData.customer_name, newCustomerContact, session.user.id);
+        customerId = customer.id;
+        setCustomers(prev => [...prev, customer]);
+        setFormData(prev => ({ ...prev, customer_id: customer.id }));
       }
 
+      // Only the fields on the form; status, unwind and trash columns are
+      // changed through their own actions. Shares are saved separately.
       const saleData = {
-        ...formData,
-        user_id: session?.user.id,
+        stock_number: formData.stock_number,
+        customer_name: formData.customer_name,
+        customer_id: customerId || null,
+        sale_type: formData.sale_type,
+        vin: normalizeVin(formData.vin) || null,
+        vehicle_year: Number(formData.vehicle_year) || null,
+        vehicle_make: formData.vehicle_make.trim() || null,
+        vehicle_model: formData.vehicle_model.trim() || null,
         sale_price: Number(formData.sale_price),
         accessories_price: Number(formData.accessories_price) || 0,
         warranty_price: Number(formData.warranty_price) || 0,
         warranty_cost: Number(formData.warranty_cost) || 0,
         maintenance_price: Number(formData.maintenance_price) || 0,
         maintenance_cost: Number(formData.maintenance_cost) || 0,
-        shared_with_email: isShared ? formData.shared_with_email : null,
-        shared_with_id: isShared ? shared_with_id : null,
-        shared_status: isShared ? 'pending' : null,
+        date: formData.date,
       };
 
-      const { error } = editSale
-        ? await supabase.from('sales').update(saleData).eq('id', editSale.id)
-        : await supabase.from('sales').insert([saleData]);
+      const { data: savedSale, error } = editSale
+        ? await supabase.from('sales').update(saleData).eq('id', editSale.id).select().single()
+        : await supabase.from('sales').insert([{ ...saleData, user_id: session?.user.id }]).select().single();
 
       if (error) throw error;
-      
+
       toast.success(editSale ? 'Sale updated successfully' : 'Sale added successfully');
+
+      if (isShared || editSale) {
+        try {
+          await saveSaleShares(savedSale.id, shareParticipants);
+        } catch (error: any) {
+          toast.error(error.message || 'The sale was saved but could not be shared');
+        }
+      }
+
+      // The sale is saved either way; a failed claim can be entered by hand
+      const claims = matchingPrograms
+        .filter(program => !skippedProgramIds.has(program.id))
+        .map(program => ({ sale: savedSale as SaleEntry, program }));
+      try {
+        await createIncentiveSpiffs(claims);
+        if (claims.length > 0) {
+          toast.success(`${claims.length} incentive spiff${claims.length === 1 ? '' : 's'} submitted for approval`);
+        }
+      } catch {
+        toast.error('Incentive spiffs could not be submitted');
+      }
       onSaleAdded();
       onClose();
     } catch (error: any) {
@@ -116,202 +364,484 @@ const SaleDetailsForm = ({ onClose, onSaleAdded, editSale }: SaleDetailsFormProp
     }
   };
 
+  function validateParticipants() {
+    if (participants.length === 0) return 'Add at least one salesperson to share the sale with';
+
+    const emails = participants.map(participant => participant.email.trim().toLowerCase());
+    if (emails.some(email => !email)) return 'Please enter an email for each salesperson';
+    if (new Set(emails).size !== emails.length) return 'Each salesperson can only be added once';
+    if (session?.user.email && emails.includes(session.user.email.toLowerCase())) {
+      return "You're already on the sale as the seller";
+    }
+
+    const percentages = participants.map(participant => Number(participant.percentage));
+    if (percentages.some(percentage => !(percentage > 0 && percentage < 100))) {
+      return 'Each split must be between 0 and 100%';
+    }
+    if (!(Number(sellerPercentage) > 0)) return 'You need to keep part of the sale';
+    if (splitTotal !== 100) return `Splits add up to ${splitTotal}% but must total 100%`;
+
+    return null;
+  }
+
+  const handleSharedChange = (checked: boolean) => {
+    setIsShared(checked);
+    if (checked && participants.length === 0) {
+      const { share, seller } = splitEvenly(1);
+      setParticipants([{ email: '', percentage: String(share) }]);
+      setSellerPercentage(String(seller));
+    }
+  };
+
+  // A new salesperson takes half of the seller's split; everyone else's
+  // terms, and any share they already accepted, stay as they are
+  const addParticipant = () => {
+    const remainder = Number(sellerPercentage) || 0;
+    const share = Math.floor(remainder * 50) / 100;
+    if (!(share > 0)) {
+      toast.error('Your split is too small to share further');
+      return;
+    }
+    setParticipants(prev => [...prev, { email: '', percentage: String(share) }]);
+    setSellerPercentage(String(roundPercentage(remainder - share)));
+  };
+
+  // A removed salesperson's split goes back to the seller
+  const removeParticipant = (index: number) => {
+    const removed = Number(participants[index].percentage) || 0;
+    setParticipants(prev => prev.filter((_, i) => i !== index));
+    setSellerPercentage(prev => String(roundPercentage((Number(prev) || 0) + removed)));
+  };
+
+  const handleParticipantChange = (index: number, field: 'email' | 'percentage', value: string) => {
+    setParticipants(prev => prev.map((participant, i) =>
+      i === index ? { ...participant, [field]: value, edited: true } : participant
+    ));
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
-  return (
-    <form onSubmit={handleSubmit} className="space-y-4">
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {/* Form fields remain unchanged */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700">
-            Stock Number <span className="text-red-500">*</span>
-          </label>
-          <input
-            type="text"
-            name="stock_number"
-            required
-            value={formData.stock_number}
-            onChange={handleInputChange}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-          />
-        </div>
+  // Typing unlinks the sale from its customer until one is picked again
+  const handleCustomerChange = (name: string, customer: Customer | null) => {
+    setFormData(prev => ({ ...prev, customer_name: name, customer_id: customer?.id || '' }));
+  };
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700">
-            Customer Name <span className="text-red-500">*</span>
-          </label>
-          <input
-            type="text"
-            name="customer_name"
-            required
-            value={formData.customer_name}
-            onChange={handleInputChange}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-          />
-        </div>
+  const handleContactChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setNewCustomerContact(prev => ({ ...prev, [name]: value }));
+  };
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700">Sale Type</label>
-          <select
-            name="sale_type"
-            value={formData.sale_type}
-            onChange={handleInputChange}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-          >
-            <option value="Used">Used</option>
-            <option value="New">New</option>
-            <option value="Trade-In">Trade-In</option>
-          </select>
-        </div>
+  // A VIN that checks out fills in the year and make it encodes
+  const handleVinChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const vin = e.target.value.toUpperCase();
+    const decoded = decodeVin(vin);
+    setFormData(prev => ({
+      ...prev,
+      vin,
+      vehicle_year: decoded?.modelYear ? String(decoded.modelYear) : prev.vehicle_year,
+      vehicle_make: decoded?.make || prev.vehicle_make,
+    }));
+  };
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700">
-            Sale Date <span className="text-red-500">*</span>
-          </label>
-          <input
-            type="date"
-            name="date"
-            required
-            value={formData.date}
-            onChange={handleInputChange}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-          />
-        </div>
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <form onSubmit={handleSubmit} className="space-y-4 lg:col-span-2">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Form fields remain unchanged */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Stock Number <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              name="stock_number"
+              required
+              value={formData.stock_number}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+            {stockLookup === 'done' && !vehicle && (
+              <p className="mt-1 text-sm text-amber-600">Not in inventory — check the stock number</p>
+            )}
+            {stockLookup === 'done' && vehicle && isSoldElsewhere(vehicle, editSale?.id) && (
+              <p className="mt-1 text-sm text-red-600">
+                {describeVehicle(vehicle)} was already sold on {format(new Date(`${vehicle.sold_on!.split('T')[0]}T00:00:00`), 'MM/dd/yyyy')}
+              </p>
+            )}
+            {stockLookup === 'done' && vehicle && !isSoldElsewhere(vehicle, editSale?.id) && (
+              <p className="mt-1 text-sm text-green-700">
+                {describeVehicle(vehicle)} · {getDaysInStock(vehicle)} days in stock
+              </p>
+            )}
+          </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700">
-            Sale Price <span className="text-red-500">*</span>
-          </label>
-          <input
-            type="number"
-            name="sale_price"
-            required
-            min="0"
-            step="0.01"
-            value={formData.sale_price}
-            onChange={handleInputChange}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          <CustomerPicker
+            customers={customers}
+            name={formData.customer_name}
+            customerId={formData.customer_id}
+            contact={newCustomerContact}
+            onChange={handleCustomerChange}
           />
-        </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700">Accessories Price</label>
-          <input
-            type="number"
-            name="accessories_price"
-            min="0"
-            step="0.01"
-            value={formData.accessories_price}
-            onChange={handleInputChange}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-          />
-        </div>
+          {!formData.customer_id && formData.customer_name.trim() && (
+            <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-3 gap-4 rounded-md border border-gray-200 p-4">
+              <p className="md:col-span-3 text-sm text-gray-600">
+                New customer — add their contact details so they're recognized next time
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Phone</label>
+                <input
+                  type="tel"
+                  name="phone"
+                  value={newCustomerContact.phone || ''}
+                  onChange={handleContactChange}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Email</label>
+                <input
+                  type="email"
+                  name="email"
+                  value={newCustomerContact.email || ''}
+                  onChange={handleContactChange}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Address</label>
+                <input
+                  type="text"
+                  name="address"
+                  value={newCustomerContact.address || ''}
+                  onChange={handleContactChange}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          )}
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700">Warranty Price</label>
-          <input
-            type="number"
-            name="warranty_price"
-            min="0"
-            step="0.01"
-            value={formData.warranty_price}
-            onChange={handleInputChange}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-          />
-        </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700">VIN</label>
+            <input
+              type="text"
+              name="vin"
+              maxLength={20}
+              value={formData.vin}
+              onChange={handleVinChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 font-mono"
+            />
+            {vinError && <p className="mt-1 text-sm text-red-600">{vinError}</p>}
+            {decodedVin && <p className="mt-1 text-sm text-green-700">{describeDecodedVin(decodedVin)}</p>}
+          </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700">Warranty Cost</label>
-          <input
-            type="number"
-            name="warranty_cost"
-            min="0"
-            step="0.01"
-            value={formData.warranty_cost}
-            onChange={handleInputChange}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-          />
-        </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Year</label>
+            <input
+              type="number"
+              name="vehicle_year"
+              min="1900"
+              max="2100"
+              value={formData.vehicle_year}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700">Maintenance Price</label>
-          <input
-            type="number"
-            name="maintenance_price"
-            min="0"
-            step="0.01"
-            value={formData.maintenance_price}
-            onChange={handleInputChange}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-          />
-        </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Make</label>
+            <input
+              type="text"
+              name="vehicle_make"
+              value={formData.vehicle_make}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700">Maintenance Cost</label>
-          <input
-            type="number"
-            name="maintenance_cost"
-            min="0"
-            step="0.01"
-            value={formData.maintenance_cost}
-            onChange={handleInputChange}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-          />
-        </div>
-      </div>
-
-      <div>
-        <div className="flex items-center mb-4">
-          <input
-            type="checkbox"
-            id="is_shared"
-            checked={isShared}
-            onChange={(e) => setIsShared(e.target.checked)}
-            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-          />
-          <label htmlFor="is_shared" className="ml-2 block text-sm text-gray-900">
-            Shared Sale
-          </label>
-        </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Vehicle Model</label>
+            <input
+              type="text"
+              name="vehicle_model"
+              value={formData.vehicle_model}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              placeholder="e.g. Outlander PHEV"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Sale Type</label>
+            <select
+              name="sale_type"
+              value={formData.sale_type}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="Used">Used</option>
+              <option value="New">New</option>
+              <option value="Trade-In">Trade-In</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Sale Date <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="date"
+              name="date"
+              required
+              value={formData.date}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
 
-        {isShared && (
           <div>
             <label className="block text-sm font-medium text-gray-700">
-              Shared With (Email) <span className="text-red-500">*</span>
+              Sale Price <span className="text-red-500">*</span>
             </label>
             <input
-              type="email"
-              name="shared_with_email"
-              required={isShared}
-              value={formData.shared_with_email}
+              type="number"
+              name="sale_price"
+              required
+              min="0"
+              step="0.01"
+              value={formData.sale_price}
               onChange={handleInputChange}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
             />
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Accessories Price</label>
+            <input
+              type="number"
+              name="accessories_price"
+              min="0"
+              step="0.01"
+              value={formData.accessories_price}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Warranty Price</label>
+            <input
+              type="number"
+              name="warranty_price"
+              min="0"
+              step="0.01"
+              value={formData.warranty_price}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Warranty Cost</label>
+            <input
+              type="number"
+              name="warranty_cost"
+              min="0"
+              step="0.01"
+              value={formData.warranty_cost}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Maintenance Price</label>
+            <input
+              type="number"
+              name="maintenance_price"
+              min="0"
+              step="0.01"
+              value={formData.maintenance_price}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Maintenance Cost</label>
+            <input
+              type="number"
+              name="maintenance_cost"
+              min="0"
+              step="0.01"
+              value={formData.maintenance_cost}
+              onChange={handleInputChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center mb-4">
+            <input
+              type="checkbox"
+              id="is_shared"
+              checked={isShared}
+              disabled={participants.some(participant => participant.status === 'accepted')}
+              onChange={(e) => handleSharedChange(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <label htmlFor="is_shared" className="ml-2 block text-sm text-gray-900">
+              Shared Sale
+            </label>
+          </div>
+
+          {isShared && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700">Seller</label>
+                  <p className="mt-1 py-2 text-sm text-gray-900">{session?.user.email || 'You'}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Your Split (%) <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    required
+                    min="0.01"
+                    max="99.99"
+                    step="0.01"
+                    value={sellerPercentage}
+                    onChange={(e) => setSellerPercentage(e.target.value)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              {participants.map((participant, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Shared With (Email) <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="email"
+                      required
+                      // An accepted share is settled; only unwinding the deal takes it back
+                      readOnly={participant.status === 'accepted'}
+                      value={participant.email}
+                      onChange={(e) => handleParticipantChange(index, 'email', e.target.value)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Their Split (%) <span className="text-red-500">*</span>
+                    </label>
+                    <div className="mt-1 flex items-center space-x-2">
+                      <input
+                        type="number"
+                        required
+                        min="0.01"
+                        max="99.99"
+                        step="0.01"
+                        readOnly={participant.status === 'accepted'}
+                        value={participant.percentage}
+                        onChange={(e) => handleParticipantChange(index, 'percentage', e.target.value)}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      />
+                      {participant.status !== 'accepted' && (
+                        <button
+                          type="button"
+                          onClick={() => removeParticipant(index)}
+                          className="p-1 text-red-600 hover:text-red-800"
+                          title="Remove"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {participant.status && !participant.edited && (
+                    <p className="md:col-span-3 -mt-3 text-xs text-gray-500">
+                      {SHARE_STATUS_LABELS[participant.status]}
+                      {participant.status === 'countered' && ` · asked for ${Number(participant.counterPercentage)}%`}
+                    </p>
+                  )}
+                </div>
+              ))}
+
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={addParticipant}
+                  className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add salesperson
+                </button>
+                <p className={`text-sm ${splitTotal === 100 ? 'text-gray-500' : 'text-red-600'}`}>
+                  Total {splitTotal}%{splitTotal !== 100 && ' — must be 100%'}
+                </p>
+              </div>
+              <p className="text-xs text-gray-500">
+                Each salesperson accepts, rejects or counters their split; a rejected split comes back to you.
+                Removing someone revokes their share and changing an email offers it to someone else.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {matchingPrograms.length > 0 && (
+          <div className="rounded-md border border-blue-200 bg-blue-50 p-4">
+            <h3 className="text-sm font-medium text-gray-900">Incentive Programs</h3>
+            <p className="text-sm text-gray-600">
+              This sale qualifies for the programs below. Checked ones are submitted as spiffs when you save.
+            </p>
+            <div className="mt-2 space-y-2">
+              {matchingPrograms.map(program => (
+                <label key={program.id} className="flex items-start text-sm text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={!skippedProgramIds.has(program.id)}
+                    onChange={() => toggleProgram(program.id)}
+                    className="mt-0.5 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-2">
+                    <span className="font-medium">{program.name}</span> · ${program.amount.toLocaleString()}
+                    <span className="block text-xs text-gray-500">{describeEligibility(program)}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
         )}
-      </div>
-
-      <div className="flex justify-end space-x-3 pt-4">
-        <button
-          type="button"
-          onClick={onClose}
-          disabled={isSubmitting}
-          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
-        >
-          Cancel
-        </button>
-        <button
-          type="submit"
-          disabled={isSubmitting}
-          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
-        >
-          {isSubmitting ? 'Saving...' : (editSale ? 'Update Sale' : 'Add Sale')}
-        </button>
-      </div>
-    </form>
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Saving...' : (editSale ? 'Update Sale' : 'Add Sale')}
+          </button>
+        </div>
+      </form>
+      <CommissionPreview sale={previewSale} />
+    </div>
   );
 };
 
@@ -0,0 +1,350 @@
+import React, { useState, useEffect } from 'react';
+import { Ban, Check, Repeat, Send, UserCog, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import {
+  SaleEntry,
+  SaleShare,
+  ShareEvent,
+  ShareEventAction,
+  SHARE_STATUS_LABELS,
+  counterShare,
+  getSaleShares,
+  getSellerSplit,
+  getShareEvents,
+  resendShare,
+  respondToCounter,
+  respondToShare,
+  retargetShare,
+  revokeShare,
+} from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+
+interface SaleSharesModalProps {
+  sale: SaleEntry | null;
+  // Shows the split and its history without any actions
+  readOnly?: boolean;
+  onClose: () => void;
+  onChange?: () => void;
+}
+
+const formatSplit = (percentage?: number | null) => `${Number(percentage)}%`;
+
+const EVENT_DESCRIPTIONS: Record<ShareEventAction, (event: ShareEvent) => string> = {
+  offered: event => `offered ${event.email} ${formatSplit(event.percentage)}`,
+  resent: event => `resent ${formatSplit(event.percentage)} to ${event.email}`,
+  retargeted: event => `moved the ${formatSplit(event.percentage)} share from ${event.previous_email} to ${event.email}`,
+  accepted: event => `accepted ${formatSplit(event.percentage)}`,
+  rejected: event => `rejected ${formatSplit(event.percentage)}`,
+  countered: event => `asked for ${formatSplit(event.percentage)} instead`,
+  counter_accepted: event => `agreed to ${event.email}'s ${formatSplit(event.percentage)}`,
+  counter_declined: event => `declined ${event.email}'s counter and offered ${formatSplit(event.percentage)} again`,
+  revoked: event => `revoked ${event.email}'s ${formatSplit(event.percentage)} share`,
+};
+
+const STATUS_CLASSES: Record<SaleShare['status'], string> = {
+  pending: 'text-amber-600',
+  accepted: 'text-green-700',
+  rejected: 'text-red-600',
+  countered: 'text-blue-600',
+  revoked: 'text-gray-500',
+};
+
+export default function SaleSharesModal({ sale, readOnly, onClose, onChange }: SaleSharesModalProps) {
+  const { session } = useAuth();
+  const [shares, setShares] = useState<SaleShare[]>([]);
+  const [events, setEvents] = useState<ShareEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [retarget, setRetarget] = useState<{ shareId: string; email: string } | null>(null);
+  const [counter, setCounter] = useState<{ shareId: string; percentage: string; note: string } | null>(null);
+
+  const userId = session?.user.id;
+  const isSeller = !readOnly && !!sale && sale.user_id === userId;
+
+  const fetchShares = async (saleId: string) => {
+    try {
+      const [saleShares, shareEvents] = await Promise.all([getSaleShares(saleId), getShareEvents(saleId)]);
+      setShares(saleShares);
+      setEvents(shareEvents);
+    } catch {
+      toast.error('Error fetching shares');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!sale) return;
+
+    setShares([]);
+    setEvents([]);
+    setRetarget(null);
+    setCounter(null);
+    setLoading(true);
+    fetchShares(sale.id);
+  }, [sale]);
+
+  if (!sale) return null;
+
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+      toast.success(success);
+      setRetarget(null);
+      setCounter(null);
+      await fetchShares(sale.id);
+      onChange?.();
+    } catch (error: any) {
+      console.error('Error updating share:', error);
+      toast.error(error.message || 'Error updating share');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleReject = (share: SaleShare) => {
+    if (!window.confirm('Are you sure you want to reject this shared sale?')) return;
+    runAction(() => respondToShare(share.id, 'rejected'), 'Shared sale rejected');
+  };
+
+  const handleRetarget = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!retarget) return;
+
+    const email = retarget.email.trim();
+    if (!email) {
+      toast.error('Please enter an email');
+      return;
+    }
+    if (email.toLowerCase() === session?.user.email?.toLowerCase()) {
+      toast.error("You're already on the sale as the seller");
+      return;
+    }
+    runAction(() => retargetShare(retarget.shareId, email), `Share offered to ${email}`);
+  };
+
+  const handleCounter = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!counter) return;
+
+    const percentage = Number(counter.percentage);
+    if (!(percentage > 0 && percentage < 100)) {
+      toast.error('Your split must be between 0 and 100%');
+      return;
+    }
+    runAction(() => counterShare(counter.shareId, percentage, counter.note), 'Counter sent to the seller');
+  };
+
+  const iconButton = (title: string, className: string, onClick: () => void, icon: React.ReactNode) => (
+    <button
+      type="button"
+      title={title}
+      disabled={isWorking}
+      onClick={onClick}
+      className={`p-1 transition-colors disabled:opacity-50 ${className}`}
+    >
+      {icon}
+    </button>
+  );
+
+  const renderActions = (share: SaleShare) => {
+    if (isSeller) {
+      return (
+        <>
+          {share.status === 'countered' && (
+            <>
+              {iconButton(`Accept ${formatSplit(share.counter_percentage)}`, 'text-green-600 hover:text-green-800',
+                () => runAction(() => respondToCounter(share.id, 'accepted'), 'Counter accepted'),
+                <Check className="h-4 w-4" />)}
+              {iconButton(`Decline and offer ${formatSplit(share.percentage)} again`, 'text-red-600 hover:text-red-800',
+                () => runAction(() => respondToCounter(share.id, 'declined'), 'Counter declined'),
+                <X className="h-4 w-4" />)}
+            </>
+          )}
+          {share.status !== 'accepted' && share.status !== 'countered' &&
+            iconButton('Resend', 'text-blue-600 hover:text-blue-800',
+              () => runAction(() => resendShare(share.id), `Share resent to ${share.email}`),
+              <Send className="h-4 w-4" />)}
+          {share.status !== 'accepted' &&
+            iconButton('Offer to someone else', 'text-blue-600 hover:text-blue-800',
+              () => setRetarget({ shareId: share.id, email: '' }),
+              <UserCog className="h-4 w-4" />)}
+          {(share.status === 'pending' || share.status === 'countered') &&
+            iconButton('Revoke', 'text-red-600 hover:text-red-800',
+              () => runAction(() => revokeShare(share.id), 'Share revoked'),
+              <Ban className="h-4 w-4" />)}
+        </>
+      );
+    }
+
+    if (!readOnly && share.user_id === userId && (share.status === 'pending' || share.status === 'countered')) {
+      return (
+        <>
+          {iconButton(`Accept ${formatSplit(share.percentage)}`, 'text-green-600 hover:text-green-800',
+            () => runAction(() => respondToShare(share.id, 'accepted'), 'Shared sale accepted'),
+            <Check className="h-4 w-4" />)}
+          {iconButton('Reject', 'text-red-600 hover:text-red-800', () => handleReject(share), <X className="h-4 w-4" />)}
+          {iconButton('Counter with a different split', 'text-blue-600 hover:text-blue-800',
+            () => setCounter({ shareId: share.id, percentage: String(Number(share.counter_percentage || share.percentage)), note: '' }),
+            <Repeat className="h-4 w-4" />)}
+        </>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-2xl bg-white rounded-lg shadow-xl" onClick={e => e.stopPropagation()}>
+          <div className="p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-2xl font-bold">
+                Sharing
+                <span className="ml-2 text-base font-normal text-gray-500">Stock #{sale.stock_number}</span>
+              </h2>
+              <button
+                onClick={onClose}
+                className="text-gray-500 hover:text-gray-700 transition-colors"
+                type="button"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            {loading && <p className="text-sm text-gray-500">Loading...</p>}
+
+            {!loading && (
+              <table className="min-w-full text-sm divide-y divide-gray-200">
+                <tbody className="divide-y divide-gray-100">
+                  <tr>
+                    <td className="py-2 text-gray-900">
+                      {sale.user_id === userId ? 'You' : sale.seller_email || 'Seller'}
+                      <span className="ml-1 text-xs text-gray-500">(seller)</span>
+                    </td>
+                    <td className="py-2 text-gray-900">
+                      {formatSplit(getSellerSplit({ ...sale, sale_shares: shares }))}
+                    </td>
+                    <td className="py-2" />
+                    <td className="py-2" />
+                  </tr>
+                  {shares.map(share => (
+                    <tr key={share.id} className="align-top">
+                      <td className="py-2 text-gray-900">
+                        {retarget?.shareId === share.id ? (
+                          <form onSubmit={handleRetarget} className="flex items-center space-x-2">
+                            <input
+                              type="email"
+                              required
+                              autoFocus
+                              placeholder="Their email"
+                              value={retarget.email}
+                              onChange={(e) => setRetarget({ ...retarget, email: e.target.value })}
+                              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                            />
+                            <button type="submit" disabled={isWorking} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+                              Offer
+                            </button>
+                            <button type="button" onClick={() => setRetarget(null)} className="text-gray-500 hover:text-gray-700">
+                              Cancel
+                            </button>
+                          </form>
+                        ) : (
+                          share.email
+                        )}
+                      </td>
+                      <td className="py-2 text-gray-900">{formatSplit(share.percentage)}</td>
+                      <td className="py-2">
+                        <span className={STATUS_CLASSES[share.status]}>{SHARE_STATUS_LABELS[share.status]}</span>
+                        {share.status === 'countered' && (
+                          <span className="block text-xs text-gray-600">
+                            Asks for {formatSplit(share.counter_percentage)}
+                            {share.response_note && ` · “${share.response_note}”`}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        <div className="flex justify-end space-x-1">{renderActions(share)}</div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {counter && (
+              <form onSubmit={handleCounter} className="rounded-md border border-gray-200 p-4 space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Your Split (%)</label>
+                    <input
+                      type="number"
+                      required
+                      min="0.01"
+                      max="99.99"
+                      step="0.01"
+                      value={counter.percentage}
+                      onChange={(e) => setCounter({ ...counter, percentage: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700">Note</label>
+                    <input
+                      type="text"
+                      placeholder="e.g. I worked the whole test drive"
+                      value={counter.note}
+                      onChange={(e) => setCounter({ ...counter, note: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => setCounter(null)}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isWorking}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Send Counter
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {!loading && (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-800 mb-2">Negotiation</h3>
+                {events.length === 0 && <p className="text-sm text-gray-500">Nothing has happened on this share yet.</p>}
+                <ol className="space-y-2 max-h-64 overflow-y-auto">
+                  {events.map(event => (
+                    <li key={event.id} className="text-sm flex justify-between space-x-4">
+                      <span className="text-gray-900">
+                        <span className="font-medium">{event.actor_id === userId ? 'You' : event.actor_email || 'Someone'}</span>{' '}
+                        {EVENT_DESCRIPTIONS[event.action](event)}
+                        {event.note && <span className="block text-xs text-gray-600">“{event.note}”</span>}
+                      </span>
+                      <span className="text-gray-500 whitespace-nowrap">
+                        {format(new Date(event.created_at), 'MM/dd/yyyy h:mm a')}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
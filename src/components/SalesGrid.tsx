@@ -8,32 +8,55 @@ import {
   SortingState,
   useReactTable,
 } from '@tanstack/react-table';
-import { SaleEntry, SpiffEntry, calculateCommissions } from '../lib/supabase';
+import {
+  SaleEntry,
+  SpiffEntry,
+  ChargebackEntry,
+  DealStatus,
+  DEAL_STATUS_LABELS,
+  getPeriodEntries,
+} from '../lib/supabase';
+import { GridRow, ExportFormat, buildGridRows, exportGridRows, filterGridRows, sortGridRows } from '../lib/salesGrid';
+import { DateRange, PayPeriod } from '../lib/payPeriods';
+import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
-import { Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Download, History, Pencil, RotateCcw, Search, Share2, Trash2, XCircle } from 'lucide-react';
+import ExportModal from './ExportModal';
+import AuditHistoryModal from './AuditHistoryModal';
+import SaleSharesModal from './SaleSharesModal';
+import { useCommissionPlans } from '../hooks/useCommissionPlans';
+import { useAuth } from '../hooks/useAuth';
 
 interface SalesGridProps {
   sales: SaleEntry[];
   spiffs: SpiffEntry[];
-  onEdit: (item: SaleEntry | SpiffEntry) => void;
-  onDelete: (id: string, type: 'sale' | 'spiff') => void;
+  chargebacks: ChargebackEntry[];
+  period: PayPeriod;
+  // Whose grid this is; defaults to the signed-in user
+  userId?: string;
+  // Hides the status selector and every row action but history, e.g. for a manager's drill-down
+  readOnly?: boolean;
+  onEdit?: (item: SaleEntry | SpiffEntry) => void;
+  onDelete?: (id: string, type: 'sale' | 'spiff') => void;
+  onLeaveShare?: (sale: SaleEntry) => void;
+  onUnwind?: (sale: SaleEntry) => void;
+  onStatusChange?: (sale: SaleEntry, status: DealStatus) => void;
+  // Called after a share is answered, revoked or re-offered from the sharing dialog
+  onSharesChange?: () => void;
 }
 
-type GridRow = {
-  id: string;
-  date: string;
-  stock_number?: string;
-  customer_name?: string;
-  type: string;
-  carCommission: number;
-  accessoriesCommission: number;
-  warrantyCommission: number;
-  maintenanceCommission: number;
-  totalCommission: number;
-  shared: boolean;
-  shared_with_email?: string;
-  isSpiff: boolean;
-  originalData: SaleEntry | SpiffEntry;
+type GridMeta = Pick<SalesGridProps, 'readOnly' | 'onEdit' | 'onDelete' | 'onLeaveShare' | 'onUnwind' | 'onStatusChange'> & {
+  onShowHistory: (row: GridRow) => void;
+  onShowShares: (sale: SaleEntry) => void;
+};
+
+const formatCurrency = (value: number) =>
+  value < 0 ? `-$${Math.abs(value).toLocaleString()}` : `$${value.toLocaleString()}`;
+
+const formatName = (email: string) => {
+  const name = email.split('@')[0];
+  return name.charAt(0).toUpperCase() + name.slice(1);
 };
 
 const columnHelper = createColumnHelper<GridRow>();
@@ -49,12 +72,51 @@ const columns = [
   }),
   columnHelper.accessor('customer_name', {
     header: 'Customer Name',
+    cell: info => {
+      const { customer_id } = info.row.original;
+      if (!customer_id) return info.getValue() || '-';
+      return (
+        <Link to={`/customers/${customer_id}`} className="text-blue-600 hover:text-blue-800">
+          {info.getValue()}
+        </Link>
+      );
+    },
+  }),
+  columnHelper.accessor('vehicle', {
+    header: 'Vehicle',
     cell: info => info.getValue() || '-',
   }),
   columnHelper.accessor('type', {
     header: 'Type',
     cell: info => info.getValue(),
   }),
+  columnHelper.accessor('status', {
+    header: 'Status',
+    cell: info => {
+      const status = info.getValue();
+      const row = info.row.original;
+      const meta = info.table.options.meta as GridMeta;
+      if (!status) return '-';
+      // A funded deal only comes off the books through an unwind
+      if (row.shared_from_email || row.isUnwound || meta.readOnly || status === 'funded') {
+        return DEAL_STATUS_LABELS[status];
+      }
+
+      return (
+        <select
+          value={status}
+          onChange={(e) => meta.onStatusChange?.(row.originalData as SaleEntry, e.target.value as DealStatus)}
+          className={`rounded-md border-gray-300 py-1 pl-2 pr-8 text-sm focus:border-blue-500 focus:ring-blue-500 ${
+            status === 'cancelled' ? 'text-red-600' : 'text-amber-600'
+          }`}
+        >
+          {Object.entries(DEAL_STATUS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      );
+    },
+  }),
   columnHelper.accessor('carCommission', {
     header: 'Car Commis.',
     cell: info => `$${info.getValue().toLocaleString()}`,
@@ -71,93 +133,146 @@ const columns = [
     header: 'Maintenance',
     cell: info => `$${info.getValue().toLocaleString()}`,
   }),
+  columnHelper.accessor('tradeInCommission', {
+    header: 'Trade-In',
+    cell: info => `$${info.getValue().toLocaleString()}`,
+  }),
   columnHelper.accessor('totalCommission', {
     header: 'TOTAL',
-    cell: info => `$${info.getValue().toLocaleString()}`,
+    cell: info => formatCurrency(info.getValue()),
   }),
   columnHelper.accessor('shared', {
     header: 'Shared',
-    cell: info => info.getValue() ? 'Yes' : 'No',
+    cell: info => {
+      const { creditedPercentage, shared_from_email } = info.row.original;
+      if (shared_from_email) {
+        return `From ${formatName(shared_from_email)} (${creditedPercentage}%)`;
+      }
+      return info.getValue() ? `Yes (${creditedPercentage}%)` : 'No';
+    },
   }),
-  columnHelper.accessor('shared_with_email', {
+  columnHelper.accessor('shared_with_emails', {
     header: 'Shared With',
     cell: info => {
-      const email = info.getValue();
-      return email ? email.split('@')[0].charAt(0).toUpperCase() + email.split('@')[0].slice(1) : '-';
+      const emails = info.getValue();
+      return emails ? emails.map(formatName).join(', ') : '-';
     },
   }),
   columnHelper.display({
     id: 'actions',
     header: 'Actions',
-    cell: (info) => (
-      <div className="flex space-x-2">
+    cell: (info) => {
+      const meta = info.table.options.meta as GridMeta;
+      const row = info.row.original;
+
+      const historyButton = (
         <button
-          onClick={() => info.table.options.meta?.onEdit(info.row.original.originalData)}
-          className="p-1 text-blue-600 hover:text-blue-800 transition-colors"
+          onClick={() => meta.onShowHistory(row)}
+          className="p-1 text-gray-500 hover:text-gray-700 transition-colors"
+          title="History"
         >
-          <Pencil className="h-4 w-4" />
+          <History className="h-4 w-4" />
         </button>
+      );
+
+      const sale = row.originalData as SaleEntry;
+      const sharesButton = !row.isSpiff && !row.isChargeback && !!sale.sale_shares?.length && (
         <button
-          onClick={() => info.table.options.meta?.onDelete(
-            info.row.original.id,
-            info.row.original.isSpiff ? 'spiff' : 'sale'
-          )}
-          className="p-1 text-red-600 hover:text-red-800 transition-colors"
+          onClick={() => meta.onShowShares(sale)}
+          className="p-1 text-gray-500 hover:text-gray-700 transition-colors"
+          title="Sharing"
         >
-          <Trash2 className="h-4 w-4" />
+          <Share2 className="h-4 w-4" />
         </button>
-      </div>
-    ),
+      );
+
+      // Unwound deals are settled through their chargebacks and stay as they were
+      if (row.isChargeback || row.isUnwound || meta.readOnly) {
+        return <div className="flex space-x-2">{historyButton}{sharesButton}</div>;
+      }
+
+      // Sales shared with the user are read-only apart from the share response,
+      // which is settled once the deal is funded
+      if (row.shared_from_email) {
+        return (
+          <div className="flex space-x-2">
+            {historyButton}
+            {sharesButton}
+            {row.status !== 'funded' && (
+              <button
+                onClick={() => meta.onLeaveShare?.(sale)}
+                className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                title="Reject shared sale"
+              >
+                <XCircle className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        );
+      }
+
+      return (
+        <div className="flex space-x-2">
+          {historyButton}
+          {sharesButton}
+          {!row.isSpiff && row.status === 'funded' && (
+            <button
+              onClick={() => meta.onUnwind?.(row.originalData as SaleEntry)}
+              className="p-1 text-amber-600 hover:text-amber-800 transition-colors"
+              title="Unwind deal"
+            >
+              <RotateCcw className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            onClick={() => meta.onEdit?.(row.originalData as SaleEntry | SpiffEntry)}
+            className="p-1 text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            <Pencil className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => meta.onDelete?.(
+              row.id,
+              row.isSpiff ? 'spiff' : 'sale'
+            )}
+            className="p-1 text-red-600 hover:text-red-800 transition-colors"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      );
+    },
   }),
 ];
 
-export default function SalesGrid({ sales, spiffs, onEdit, onDelete }: SalesGridProps) {
+export default function SalesGrid({
+  sales,
+  spiffs,
+  chargebacks,
+  period,
+  userId,
+  readOnly,
+  onEdit,
+  onDelete,
+  onLeaveShare,
+  onUnwind,
+  onStatusChange,
+  onSharesChange,
+}: SalesGridProps) {
+  const { session } = useAuth();
+  const { plans } = useCommissionPlans();
   const [sorting, setSorting] = useState<SortingState>([]);
+  const [statusFilter, setStatusFilter] = useState<DealStatus | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [historyRow, setHistoryRow] = useState<GridRow | null>(null);
+  const [sharesSale, setSharesSale] = useState<SaleEntry | null>(null);
+  const gridUserId = userId || session?.user.id;
 
-  const gridData = useMemo(() => {
-    const data: GridRow[] = [];
-
-    // Process sales
-    sales.forEach(sale => {
-      const commissions = calculateCommissions(sale);
-      
-      data.push({
-        id: sale.id,
-        date: sale.date,
-        stock_number: sale.stock_number,
-        customer_name: sale.customer_name,
-        type: sale.sale_type,
-        carCommission: commissions.carCommission,
-        accessoriesCommission: commissions.accessoriesCommission,
-        warrantyCommission: commissions.warrantyCommission,
-        maintenanceCommission: commissions.maintenanceCommission,
-        totalCommission: commissions.totalCommission,
-        shared: !!sale.shared_with_email,
-        shared_with_email: sale.shared_with_email,
-        isSpiff: false,
-        originalData: sale,
-      });
-    });
-
-    // Process spiffs
-    spiffs.forEach(spiff => {
-      data.push({
-        id: spiff.id,
-        date: spiff.date,
-        type: 'Spiff',
-        carCommission: 0,
-        accessoriesCommission: 0,
-        warrantyCommission: 0,
-        maintenanceCommission: 0,
-        totalCommission: spiff.amount,
-        shared: false,
-        isSpiff: true,
-        originalData: spiff,
-      });
-    });
-
-    return data;
-  }, [sales, spiffs]);
+  const gridData = useMemo(
+    () => filterGridRows(buildGridRows({ sales, spiffs, chargebacks }, plans, gridUserId, statusFilter), search),
+    [sales, spiffs, chargebacks, plans, gridUserId, statusFilter, search]
+  );
 
   const table = useReactTable({
     data: gridData,
@@ -169,13 +284,73 @@ export default function SalesGrid({ sales, spiffs, onEdit, onDelete }: SalesGrid
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
     meta: {
+      readOnly,
       onEdit,
       onDelete,
+      onLeaveShare,
+      onUnwind,
+      onStatusChange,
+      onShowHistory: setHistoryRow,
+      onShowShares: setSharesSale,
     },
   });
 
+  // The current period is exported exactly as shown; other ranges are loaded
+  // and run through the same filter and sort
+  const handleExport = async (range: DateRange, exportFormat: ExportFormat, isCurrentPeriod: boolean) => {
+    let rows: GridRow[] = table.getRowModel().rows.map(row => row.original);
+
+    if (!isCurrentPeriod) {
+      if (!gridUserId) return;
+      const entries = await getPeriodEntries(gridUserId, range.startDate, range.endDate);
+      // Earlier sales funded in the range come along for the commissions; the
+      // grid only lists what was sold in it
+      const sales = entries.sales.filter(sale => sale.date >= range.startDate);
+      rows = sortGridRows(filterGridRows(buildGridRows({ ...entries, sales }, plans, gridUserId, statusFilter), search), sorting);
+    }
+
+    if (rows.length === 0) {
+      toast.error('No entries to export in that range');
+      return;
+    }
+
+    exportGridRows(rows, exportFormat, `sales-${range.startDate}-to-${range.endDate}`);
+    toast.success(`Exported ${rows.length} entries`);
+  };
+
   return (
     <div className="overflow-x-auto">
+      <div className="flex items-center justify-end px-6 py-3 border-b border-gray-200">
+        <button
+          onClick={() => setIsExportOpen(true)}
+          className="mr-auto px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 flex items-center"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </button>
+        <div className="relative mr-4">
+          <Search className="h-4 w-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search stock #, customer, vehicle or VIN"
+            className="w-72 rounded-md border-gray-300 py-1 pl-8 text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+        <label className="text-sm text-gray-600 mr-2" htmlFor="status_filter">Status</label>
+        <select
+          id="status_filter"
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as DealStatus | 'all')}
+          className="rounded-md border-gray-300 py-1 pl-2 pr-8 text-sm focus:border-blue-500 focus:ring-blue-500"
+        >
+          <option value="all">All entries</option>
+          {Object.entries(DEAL_STATUS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
       <table className="min-w-full divide-y divide-gray-200">
         <thead className="bg-gray-50">
           {table.getHeaderGroups().map((headerGroup) => (
@@ -205,6 +380,9 @@ export default function SalesGrid({ sales, spiffs, onEdit, onDelete }: SalesGrid
               key={row.id} 
               className={`
                 ${row.original.isSpiff ? 'bg-blue-50' : ''}
+                ${row.original.shared_from_email ? 'bg-amber-50' : ''}
+                ${row.original.isChargeback ? 'bg-red-50' : ''}
+                ${row.original.isUnwound ? 'italic' : ''}
                 hover:bg-gray-50 transition-colors
               `}
             >
@@ -220,6 +398,21 @@ export default function SalesGrid({ sales, spiffs, onEdit, onDelete }: SalesGrid
           ))}
         </tbody>
       </table>
+
+      <ExportModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        period={period}
+        onExport={handleExport}
+      />
+
+      <AuditHistoryModal row={historyRow} onClose={() => setHistoryRow(null)} />
+      <SaleSharesModal
+        sale={sharesSale}
+        readOnly={readOnly}
+        onClose={() => setSharesSale(null)}
+        onChange={onSharesChange}
+      />
     </div>
   );
 }
@@ -1,62 +1,184 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { toast } from 'react-hot-toast';
-import { Check, X } from 'lucide-react';
-import { respondToSharedSale, markNotificationAsRead } from '../lib/supabase';
+import { Check, Repeat, X } from 'lucide-react';
+import { counterShare, respondToCounter, respondToShare, markNotificationAsRead } from '../lib/supabase';
 
 interface SharedSaleNotificationProps {
   notification: any;
   onAction: () => void;
 }
 
+function describeNotification(notification: any) {
+  const share = notification.sale_shares;
+  const email = share?.email || 'A salesperson';
+
+  switch (notification.type) {
+    case 'shared_sale_accepted':
+      return { text: `${email} accepted their split`, className: 'text-green-700' };
+    case 'shared_sale_rejected':
+      return { text: `${email} rejected their split`, className: 'text-red-600' };
+    case 'shared_sale_countered':
+      return { text: `${email} countered your offer`, className: 'text-blue-600' };
+    case 'shared_sale_counter_accepted':
+      return { text: 'Your counter was accepted', className: 'text-green-700' };
+    case 'shared_sale_revoked':
+      return { text: 'Your share of this sale was revoked', className: 'text-red-600' };
+    default:
+      return null;
+  }
+}
+
 export default function SharedSaleNotification({ notification, onAction }: SharedSaleNotificationProps) {
-  const handleResponse = async (response: 'accepted' | 'rejected') => {
+  const [counterPercentage, setCounterPercentage] = useState<string | null>(null);
+  const share = notification.sale_shares;
+  const sale = notification.sales;
+  // Only an offer or counter that's still open can be answered
+  const isOffer = notification.type === 'shared_sale_pending' && share?.status === 'pending';
+  const isCounter = notification.type === 'shared_sale_countered' && share?.status === 'countered';
+  const heading = describeNotification(notification);
+
+  const handleAction = async (action: () => Promise<unknown>, success: string) => {
     try {
-      await respondToSharedSale(notification.sale_id, response);
+      await action();
       await markNotificationAsRead(notification.id);
-      toast.success(`Sale ${response} successfully`);
+      toast.success(success);
       onAction();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error responding to shared sale:', error);
-      toast.error('Failed to respond to shared sale');
+      toast.error(error.message || 'Failed to respond to shared sale');
+    }
+  };
+
+  const handleCounter = (e: React.FormEvent) => {
+    e.preventDefault();
+    const percentage = Number(counterPercentage);
+    if (!(percentage > 0 && percentage < 100)) {
+      toast.error('Your split must be between 0 and 100%');
+      return;
+    }
+    handleAction(() => counterShare(share.id, percentage), 'Counter sent to the seller');
+  };
+
+  const handleDismiss = async () => {
+    try {
+      await markNotificationAsRead(notification.id);
+      onAction();
+    } catch (error) {
+      console.error('Error dismissing notification:', error);
+      toast.error('Failed to dismiss notification');
     }
   };
 
   return (
     <div className="border-b border-gray-200 last:border-0 py-4">
       <div className="space-y-2">
+        {heading && (
+          <p className={`text-sm font-medium ${heading.className}`}>{heading.text}</p>
+        )}
         <div className="flex justify-between">
           <p className="text-sm font-medium">
-            Stock #{notification.sales.stock_number}
+            {sale ? `Stock #${sale.stock_number}` : 'A shared sale'}
           </p>
-          <p className="text-sm text-gray-500">
-            ${notification.sales.sale_price.toLocaleString()}
+          {sale && (
+            <p className="text-sm text-gray-500">
+              ${sale.sale_price.toLocaleString()}
+            </p>
+          )}
+        </div>
+        <div className="flex justify-between">
+          <p className="text-sm text-gray-600">
+            {sale?.customer_name}
           </p>
+          {share && (
+            <p className="text-sm text-gray-600">
+              {isOffer ? 'Your split' : 'Split'}: {Number(share.percentage)}%
+              {isCounter && ` → ${Number(share.counter_percentage)}%`}
+            </p>
+          )}
         </div>
-        <p className="text-sm text-gray-600">
-          {notification.sales.customer_name}
-        </p>
+        {isCounter && share.response_note && (
+          <p className="text-sm text-gray-600">“{share.response_note}”</p>
+        )}
+        {counterPercentage !== null && (
+          <form onSubmit={handleCounter} className="flex items-center space-x-2">
+            <input
+              type="number"
+              required
+              autoFocus
+              min="0.01"
+              max="99.99"
+              step="0.01"
+              value={counterPercentage}
+              onChange={(e) => setCounterPercentage(e.target.value)}
+              className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+            />
+            <span className="text-sm text-gray-600">%</span>
+            <button type="submit" className="text-sm text-blue-600 hover:text-blue-800">
+              Send counter
+            </button>
+            <button type="button" onClick={() => setCounterPercentage(null)} className="text-sm text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          </form>
+        )}
         <div className="flex justify-between items-center">
           <p className="text-xs text-gray-500">
-            {new Date(notification.sales.date).toLocaleDateString()}
+            {sale && new Date(sale.date).toLocaleDateString()}
           </p>
-          <div className="flex space-x-2">
+          {isOffer && (
+            <div className="flex space-x-2">
+              <button
+                onClick={() => handleAction(() => respondToShare(share.id, 'accepted'), 'Sale accepted successfully')}
+                className="p-1 text-green-600 hover:text-green-800 transition-colors"
+                title="Accept"
+              >
+                <Check className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => handleAction(() => respondToShare(share.id, 'rejected'), 'Sale rejected successfully')}
+                className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                title="Reject"
+              >
+                <X className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setCounterPercentage(String(Number(share.percentage)))}
+                className="p-1 text-blue-600 hover:text-blue-800 transition-colors"
+                title="Counter with a different split"
+              >
+                <Repeat className="h-5 w-5" />
+              </button>
+            </div>
+          )}
+          {isCounter && (
+            <div className="flex space-x-2">
+              <button
+                onClick={() => handleAction(() => respondToCounter(share.id, 'accepted'), 'Counter accepted')}
+                className="p-1 text-green-600 hover:text-green-800 transition-colors"
+                title={`Accept ${Number(share.counter_percentage)}%`}
+              >
+                <Check className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => handleAction(() => respondToCounter(share.id, 'declined'), 'Counter declined')}
+                className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                title={`Decline and offer ${Number(share.percentage)}% again`}
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+          )}
+          {!isOffer && !isCounter && (
             <button
-              onClick={() => handleResponse('accepted')}
-              className="p-1 text-green-600 hover:text-green-800 transition-colors"
-              title="Accept"
-            >
-              <Check className="h-5 w-5" />
-            </button>
-            <button
-              onClick={() => handleResponse('rejected')}
-              className="p-1 text-red-600 hover:text-red-800 transition-colors"
-              title="Reject"
+              onClick={handleDismiss}
+              className="p-1 text-gray-500 hover:text-gray-700 transition-colors"
+              title="Dismiss"
             >
               <X className="h-5 w-5" />
             </button>
-          </div>
+          )}
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -3,6 +3,7 @@ import { Bell } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { getSharedSaleNotifications } from '../lib/supabase';
 import SharedSaleNotification from './SharedSaleNotification';
+import SpiffReviewNotification from './SpiffReviewNotification';
 
 interface SharedSalesNotificationsProps {
   onNotificationAction: () => void;
@@ -51,15 +52,23 @@ export default function SharedSalesNotifications({ onNotificationAction }: Share
         <div className="absolute right-0 mt-2 w-80 rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 z-50">
           <div className="p-4">
             <h3 className="text-lg font-medium text-gray-900 mb-4">
-              Pending Shared Sales
+              Notifications
             </h3>
             <div className="space-y-4 max-h-96 overflow-y-auto">
               {notifications.map((notification) => (
-                <SharedSaleNotification
-                  key={notification.id}
-                  notification={notification}
-                  onAction={handleNotificationAction}
-                />
+                notification.spiff_id ? (
+                  <SpiffReviewNotification
+                    key={notification.id}
+                    notification={notification}
+                    onAction={handleNotificationAction}
+                  />
+                ) : (
+                  <SharedSaleNotification
+                    key={notification.id}
+                    notification={notification}
+                    onAction={handleNotificationAction}
+                  />
+                )
               ))}
             </div>
           </div>
@@ -1,16 +1,17 @@
 // src/components/SpiffForm.tsx
-import React, { useState } from 'react';
-import { Upload } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import React, { useState, useEffect } from 'react';
+import { Trash2, Upload } from 'lucide-react';
+import { SpiffEntry, isApproved, supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 import { toast } from 'react-hot-toast';
 
 interface SpiffFormProps {
   onClose: () => void;
   onSpiffAdded: () => void;
+  editSpiff?: SpiffEntry | null;
 }
 
-export default function SpiffForm({ onClose, onSpiffAdded }: SpiffFormProps) {
+export default function SpiffForm({ onClose, onSpiffAdded, editSpiff }: SpiffFormProps) {
   const { session } = useAuth();
   const [amount, setAmount] = useState('');
   const [note, setNote] = useState('');
@@ -19,6 +20,15 @@ export default function SpiffForm({ onClose, onSpiffAdded }: SpiffFormProps) {
   const [uploading, setUploading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  useEffect(() => {
+    if (editSpiff) {
+      setAmount(String(editSpiff.amount));
+      setNote(editSpiff.note || '');
+      setImageUrl(editSpiff.image_url || '');
+      setDate(editSpiff.date.split('T')[0]);
+    }
+  }, [editSpiff]);
+
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -46,6 +56,8 @@ export default function SpiffForm({ onClose, onSpiffAdded }: SpiffFormProps) {
       toast.error('Error uploading image');
     } finally {
       setUploading(false);
+      // Let the same file be picked again after the image is removed
+      e.target.value = '';
     }
   };
 
@@ -64,24 +76,45 @@ export default function SpiffForm({ onClose, onSpiffAdded }: SpiffFormProps) {
 
     setIsSubmitting(true);
     try {
-      const { error } = await supabase
-        .from('spiffs')
-        .insert([{
-          user_id: session?.user.id,
-          amount: Number(amount),
-          note,
-          image_url: imageUrl,
-          date
-        }]);
-
-      if (error) throw error;
-      
-      toast.success('Spiff bonus added successfully');
+      if (editSpiff) {
+        const { data, error } = await supabase
+          .from('spiffs')
+          .update({
+            amount: Number(amount),
+            note,
+            image_url: imageUrl || null,
+            date
+          })
+          .eq('id', editSpiff.id)
+          .select('status')
+          .single();
+
+        if (error) throw error;
+
+        // The database only sends a spiff back for approval when something changed
+        const resubmitted = editSpiff.status !== 'submitted' && data.status === 'submitted';
+        toast.success(resubmitted ? 'Spiff bonus updated and resubmitted for approval' : 'Spiff bonus updated');
+      } else {
+        const { error } = await supabase
+          .from('spiffs')
+          .insert([{
+            user_id: session?.user.id,
+            amount: Number(amount),
+            note,
+            image_url: imageUrl,
+            date
+          }]);
+
+        if (error) throw error;
+
+        toast.success('Spiff bonus submitted for approval');
+      }
+
       onSpiffAdded();
       onClose();
     } catch (error: any) {
-      console.error('Error adding spiff bonus:', error);
-      toast.error(error.message || 'Error adding spiff bonus');
+      console.error('Error saving spiff bonus:', error);
+      toast.error(error.message || 'Error saving spiff bonus');
     } finally {
       setIsSubmitting(false);
     }
@@ -140,7 +173,7 @@ export default function SpiffForm({ onClose, onSpiffAdded }: SpiffFormProps) {
           <label className="relative cursor-pointer bg-white rounded-md font-medium text-blue-600 hover:text-blue-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-blue-500">
             <span className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
               <Upload className="h-4 w-4 mr-2" />
-              {uploading ? 'Uploading...' : 'Upload Image'}
+              {uploading ? 'Uploading...' : (imageUrl ? 'Replace Image' : 'Upload Image')}
             </span>
             <input
               type="file"
@@ -151,15 +184,37 @@ export default function SpiffForm({ onClose, onSpiffAdded }: SpiffFormProps) {
             />
           </label>
           {imageUrl && (
-            <img
-              src={imageUrl}
-              alt="Spiff proof"
-              className="ml-4 h-16 w-16 object-cover rounded-md"
-            />
+            <>
+              <img
+                src={imageUrl}
+                alt="Spiff proof"
+                className="ml-4 h-16 w-16 object-cover rounded-md"
+              />
+              <button
+                type="button"
+                onClick={() => setImageUrl('')}
+                className="ml-2 p-1 text-red-600 hover:text-red-800"
+                title="Remove image"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </>
           )}
         </div>
       </div>
 
+      {editSpiff?.status === 'rejected' && editSpiff.rejection_reason && (
+        <p className="text-sm text-red-600">
+          Rejected: {editSpiff.rejection_reason}
+        </p>
+      )}
+
+      <p className="text-sm text-gray-500">
+        {editSpiff && isApproved(editSpiff)
+          ? 'Saving changes sends this spiff back to your manager for approval.'
+          : 'Spiffs count toward your commissions once your manager approves them.'}
+      </p>
+
       <div className="flex justify-end space-x-3 pt-4">
         <button
           type="button"
@@ -175,7 +230,7 @@ export default function SpiffForm({ onClose, onSpiffAdded }: SpiffFormProps) {
           disabled={isSubmitting}
           className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
         >
-          {isSubmitting ? 'Saving...' : 'Add Spiff Bonus'}
+          {isSubmitting ? 'Saving...' : (editSpiff ? 'Update Spiff Bonus' : 'Submit Spiff Bonus')}
         </button>
       </div>
     </div>
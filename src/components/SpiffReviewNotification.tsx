@@ -0,0 +1,55 @@
+import { toast } from 'react-hot-toast';
+import { X } from 'lucide-react';
+import { markNotificationAsRead } from '../lib/supabase';
+
+interface SpiffReviewNotificationProps {
+  notification: any;
+  onAction: () => void;
+}
+
+export default function SpiffReviewNotification({ notification, onAction }: SpiffReviewNotificationProps) {
+  const approved = notification.type === 'spiff_approved';
+
+  const handleDismiss = async () => {
+    try {
+      await markNotificationAsRead(notification.id);
+      onAction();
+    } catch (error) {
+      console.error('Error dismissing notification:', error);
+      toast.error('Failed to dismiss notification');
+    }
+  };
+
+  return (
+    <div className="border-b border-gray-200 last:border-0 py-4">
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <p className={`text-sm font-medium ${approved ? 'text-green-700' : 'text-red-600'}`}>
+            Spiff {approved ? 'approved' : 'rejected'}
+          </p>
+          <p className="text-sm text-gray-500">
+            ${Number(notification.spiffs.amount).toLocaleString()}
+          </p>
+        </div>
+        {notification.spiffs.note && (
+          <p className="text-sm text-gray-600">{notification.spiffs.note}</p>
+        )}
+        {!approved && notification.spiffs.rejection_reason && (
+          <p className="text-sm text-red-600">Reason: {notification.spiffs.rejection_reason}</p>
+        )}
+        <div className="flex justify-between items-center">
+          <p className="text-xs text-gray-500">
+            {new Date(notification.spiffs.date).toLocaleDateString()}
+          </p>
+          <button
+            onClick={handleDismiss}
+            className="p-1 text-gray-500 hover:text-gray-700 transition-colors"
+            title="Dismiss"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
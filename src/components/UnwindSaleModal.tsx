@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { SaleEntry, calculateCommissions, unwindSale } from '../lib/supabase';
+import { useCommissionPlans } from '../hooks/useCommissionPlans';
+
+interface UnwindSaleModalProps {
+  sale: SaleEntry | null;
+  onClose: () => void;
+  onUnwound: () => void;
+}
+
+export default function UnwindSaleModal({ sale, onClose, onUnwound }: UnwindSaleModalProps) {
+  const { plans } = useCommissionPlans();
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (sale) {
+      setDate(new Date().toISOString().split('T')[0]);
+      setReason('');
+    }
+  }, [sale]);
+
+  if (!sale) return null;
+
+  const { totalCommission } = calculateCommissions(sale, plans, sale.user_id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!date || !reason) {
+      toast.error('Unwind date and reason are required');
+      return;
+    }
+
+    if (date < sale.date.split('T')[0]) {
+      toast.error('A deal cannot unwind before it was sold');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await unwindSale(sale.id, date, reason);
+      toast.success('Deal unwound and chargeback recorded');
+      onUnwound();
+      onClose();
+    } catch (error: any) {
+      console.error('Error unwinding sale:', error);
+      toast.error(error.message || 'Error unwinding sale');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-md bg-white rounded-lg shadow-xl" onClick={e => e.stopPropagation()}>
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-2xl font-bold">Unwind Deal</h2>
+              <button
+                onClick={onClose}
+                className="text-gray-500 hover:text-gray-700 transition-colors"
+                type="button"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-600">
+              Stock #{sale.stock_number} · {sale.customer_name}. The original sale stays in its
+              month and a chargeback of <span className="font-medium text-red-600">-${totalCommission.toLocaleString()}</span> is
+              recorded on the unwind date.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Unwind Date <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="date"
+                required
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Reason <span className="text-red-500">*</span>
+              </label>
+              <textarea
+                required
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                rows={3}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isSubmitting}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-[#E60012] text-white rounded-md hover:bg-[#cc0010] disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Unwind Deal'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
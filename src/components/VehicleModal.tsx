@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../hooks/useAuth';
+import { saveVehicle } from '../lib/supabase';
+import { Vehicle, VehicleCondition } from '../lib/inventory';
+import { decodeVin, describeDecodedVin, normalizeVin, validateVin } from '../lib/vin';
+
+interface VehicleModalProps {
+  isOpen: boolean;
+  vehicle: Vehicle | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export default function VehicleModal({ isOpen, vehicle, onClose, onSaved }: VehicleModalProps) {
+  const { session } = useAuth();
+  const [stockNumber, setStockNumber] = useState('');
+  const [vin, setVin] = useState('');
+  const [year, setYear] = useState('');
+  const [make, setMake] = useState('Mitsubishi');
+  const [model, setModel] = useState('');
+  const [trim, setTrim] = useState('');
+  const [condition, setCondition] = useState<VehicleCondition>('New');
+  const [cost, setCost] = useState('');
+  const [receivedAt, setReceivedAt] = useState(today());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setStockNumber(vehicle?.stock_number || '');
+    setVin(vehicle?.vin || '');
+    setYear(vehicle?.year ? String(vehicle.year) : '');
+    setMake(vehicle?.make || 'Mitsubishi');
+    setModel(vehicle?.model || '');
+    setTrim(vehicle?.trim || '');
+    setCondition(vehicle?.condition || 'New');
+    setCost(vehicle ? String(vehicle.cost) : '');
+    setReceivedAt(vehicle?.received_at || today());
+  }, [isOpen, vehicle]);
+
+  if (!isOpen) return null;
+
+  const decodedVin = decodeVin(vin);
+
+  const handleVinChange = (value: string) => {
+    const decoded = decodeVin(value);
+    setVin(value.toUpperCase());
+    if (decoded?.modelYear) setYear(String(decoded.modelYear));
+    if (decoded?.make) setMake(decoded.make);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!stockNumber.trim() || !model.trim() || !receivedAt) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    if (vin && validateVin(vin)) {
+      toast.error(`Check the VIN: ${validateVin(vin)}`);
+      return;
+    }
+
+    if (!session?.user?.id) return;
+
+    setIsSubmitting(true);
+    try {
+      await saveVehicle({
+        id: vehicle?.id,
+        stock_number: stockNumber,
+        vin: normalizeVin(vin) || null,
+        year: Number(year) || null,
+        make: make.trim() || 'Mitsubishi',
+        model: model.trim(),
+        trim: trim.trim() || null,
+        condition,
+        cost: Number(cost) || 0,
+        received_at: receivedAt,
+      }, session.user.id);
+      toast.success(vehicle ? 'Vehicle updated' : 'Vehicle added');
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving vehicle:', error);
+      toast.error(error.message || 'Error saving vehicle');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-md bg-white rounded-lg shadow-xl" onClick={e => e.stopPropagation()}>
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-2xl font-bold">{vehicle ? 'Edit Vehicle' : 'Add Vehicle'}</h2>
+              <button
+                onClick={onClose}
+                className="text-gray-500 hover:text-gray-700 transition-colors"
+                type="button"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Stock Number <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={stockNumber}
+                  onChange={(e) => setStockNumber(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">New / Used</label>
+                <select
+                  value={condition}
+                  onChange={(e) => setCondition(e.target.value as VehicleCondition)}
+                  className={inputClassName}
+                >
+                  <option value="New">New</option>
+                  <option value="Used">Used</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">VIN</label>
+              <input
+                type="text"
+                value={vin}
+                onChange={(e) => handleVinChange(e.target.value)}
+                className={`${inputClassName} font-mono`}
+              />
+              {decodedVin && <p className="mt-1 text-sm text-green-700">{describeDecodedVin(decodedVin)}</p>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Year</label>
+                <input
+                  type="number"
+                  min="1900"
+                  max="2100"
+                  value={year}
+                  onChange={(e) => setYear(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Make</label>
+                <input
+                  type="text"
+                  value={make}
+                  onChange={(e) => setMake(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Model <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  className={inputClassName}
+                  placeholder="e.g. Outlander PHEV"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Trim</label>
+                <input
+                  type="text"
+                  value={trim}
+                  onChange={(e) => setTrim(e.target.value)}
+                  className={inputClassName}
+                  placeholder="e.g. SEL"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Cost</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={cost}
+                  onChange={(e) => setCost(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  In Stock Since <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={receivedAt}
+                  onChange={(e) => setReceivedAt(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isSubmitting}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Save Vehicle'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { getCommissionPlans } from '../lib/supabase';
+import { CommissionPlan } from '../lib/commissionPlans';
+import { useAuth } from './AuthContext';
+
+interface CommissionPlanContextType {
+  plans: CommissionPlan[];
+  refreshPlans: () => Promise<void>;
+  loading: boolean;
+}
+
+export const CommissionPlanContext = createContext<CommissionPlanContextType | null>(null);
+
+export function CommissionPlanProvider({ children }: { children: React.ReactNode }) {
+  const { session } = useAuth();
+  const [plans, setPlans] = useState<CommissionPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refreshPlans = useCallback(async () => {
+    try {
+      setPlans(await getCommissionPlans());
+    } catch (error) {
+      console.error('Error loading commission plans:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!session?.user?.id) {
+      setPlans([]);
+      setLoading(false);
+      return;
+    }
+    refreshPlans();
+  }, [session?.user?.id, refreshPlans]);
+
+  const value = {
+    plans,
+    refreshPlans,
+    loading,
+  };
+
+  return <CommissionPlanContext.Provider value={value}>{children}</CommissionPlanContext.Provider>;
+}
+
+export function useCommissionPlans() {
+  const context = useContext(CommissionPlanContext);
+  if (!context) {
+    throw new Error('useCommissionPlans must be used within a CommissionPlanProvider');
+  }
+  return context;
+}
@@ -0,0 +1,47 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { getPayPeriodDefinition } from '../lib/supabase';
+import { DEFAULT_PAY_PERIOD, PayPeriodDefinition } from '../lib/payPeriods';
+import { useAuth } from './AuthContext';
+
+interface PayPeriodContextType {
+  definition: PayPeriodDefinition;
+  refreshDefinition: () => Promise<void>;
+}
+
+export const PayPeriodContext = createContext<PayPeriodContextType | null>(null);
+
+export function PayPeriodProvider({ children }: { children: React.ReactNode }) {
+  const { session } = useAuth();
+  const [definition, setDefinition] = useState<PayPeriodDefinition>(DEFAULT_PAY_PERIOD);
+
+  const refreshDefinition = useCallback(async () => {
+    try {
+      setDefinition(await getPayPeriodDefinition());
+    } catch (error) {
+      console.error('Error loading pay period:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!session?.user?.id) {
+      setDefinition(DEFAULT_PAY_PERIOD);
+      return;
+    }
+    refreshDefinition();
+  }, [session?.user?.id, refreshDefinition]);
+
+  const value = {
+    definition,
+    refreshDefinition,
+  };
+
+  return <PayPeriodContext.Provider value={value}>{children}</PayPeriodContext.Provider>;
+}
+
+export function usePayPeriod() {
+  const context = useContext(PayPeriodContext);
+  if (!context) {
+    throw new Error('usePayPeriod must be used within a PayPeriodProvider');
+  }
+  return context;
+}
@@ -0,0 +1,57 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { getUserProfile, UserProfile } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+interface ProfileContextType {
+  profile: UserProfile | null;
+  isManager: boolean;
+  refreshProfile: () => Promise<void>;
+  loading: boolean;
+}
+
+export const ProfileContext = createContext<ProfileContextType | null>(null);
+
+export function ProfileProvider({ children }: { children: React.ReactNode }) {
+  const { session } = useAuth();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refreshProfile = useCallback(async () => {
+    if (!session?.user?.id) return;
+
+    try {
+      setProfile(await getUserProfile(session.user.id));
+    } catch (error) {
+      console.error('Error loading user profile:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [session?.user?.id]);
+
+  useEffect(() => {
+    if (!session?.user?.id) {
+      setProfile(null);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    refreshProfile();
+  }, [session?.user?.id, refreshProfile]);
+
+  const value = {
+    profile,
+    isManager: profile?.role === 'manager',
+    refreshProfile,
+    loading,
+  };
+
+  return <ProfileContext.Provider value={value}>{children}</ProfileContext.Provider>;
+}
+
+export function useProfile() {
+  const context = useContext(ProfileContext);
+  if (!context) {
+    throw new Error('useProfile must be used within a ProfileProvider');
+  }
+  return context;
+}
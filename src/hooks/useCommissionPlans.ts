@@ -0,0 +1,2 @@
+// Re-export useCommissionPlans from CommissionPlanContext
+export { useCommissionPlans } from '../contexts/CommissionPlanContext';
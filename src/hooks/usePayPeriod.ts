@@ -0,0 +1,2 @@
+// Re-export usePayPeriod from PayPeriodContext
+export { usePayPeriod } from '../contexts/PayPeriodContext';
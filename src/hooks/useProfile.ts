@@ -0,0 +1,2 @@
+// Re-export useProfile from ProfileContext
+export { useProfile } from '../contexts/ProfileContext';
@@ -0,0 +1,150 @@
+export interface CarCommissionTier {
+  min_price: number;
+  amount: number;
+}
+
+export interface VolumeBonusTier {
+  min_units: number;
+  amount: number;
+}
+
+export interface CommissionPlanRules {
+  car_tiers: CarCommissionTier[];
+  accessories: {
+    new_threshold: number;
+    used_threshold: number;
+    min_excess: number;
+    amount: number;
+  };
+  warranty: {
+    profit_step: number;
+    amount_per_step: number;
+  };
+  maintenance: {
+    min_price: number;
+    amount: number;
+  };
+  volume_bonus_tiers?: VolumeBonusTier[];
+}
+
+export interface CommissionPlan {
+  id: string;
+  name: string;
+  effective_from: string;
+  effective_to?: string | null;
+  rules: CommissionPlanRules;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+// Rules in force before plans were stored in the database. Used whenever no
+// published plan covers a date.
+export const DEFAULT_COMMISSION_PLAN: CommissionPlan = {
+  id: 'default',
+  name: 'Standard pay plan',
+  effective_from: '2000-01-01',
+  effective_to: null,
+  rules: {
+    car_tiers: [
+      { min_price: 0, amount: 200 },
+      { min_price: 10000, amount: 300 },
+      { min_price: 20000, amount: 400 },
+      { min_price: 30000, amount: 500 },
+    ],
+    accessories: { new_threshold: 988, used_threshold: 488, min_excess: 800, amount: 100 },
+    warranty: { profit_step: 1000, amount_per_step: 100 },
+    maintenance: { min_price: 800, amount: 100 },
+    volume_bonus_tiers: [
+      { min_units: 10, amount: 500 },
+      { min_units: 15, amount: 1000 },
+      { min_units: 20, amount: 2000 },
+    ],
+  },
+};
+
+export function getPlanForDate(plans: CommissionPlan[], date: string): CommissionPlan {
+  const day = date.split('T')[0];
+
+  const plan = plans
+    .filter(p => p.effective_from <= day && (!p.effective_to || p.effective_to >= day))
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0];
+
+  return plan || DEFAULT_COMMISSION_PLAN;
+}
+
+export function getCarTierAmount(rules: CommissionPlanRules, salePrice: number) {
+  const tier = [...rules.car_tiers]
+    .sort((a, b) => b.min_price - a.min_price)
+    .find(t => salePrice >= t.min_price);
+
+  return tier?.amount || 0;
+}
+
+// Highest volume tier reached for a month's units and the tier after it
+export function getVolumeBonusTiers(rules: CommissionPlanRules, units: number) {
+  const tiers = [...(rules.volume_bonus_tiers || [])].sort((a, b) => a.min_units - b.min_units);
+  const earnedTier = [...tiers].reverse().find(tier => units >= tier.min_units) || null;
+  const nextTier = tiers.find(tier => units < tier.min_units) || null;
+
+  return { earnedTier, nextTier };
+}
+
+interface DealAmounts {
+  sale_type: string;
+  sale_price: number;
+  accessories_price?: number;
+  warranty_price?: number;
+  warranty_cost?: number;
+  maintenance_price?: number;
+}
+
+const formatAmount = (amount: number) =>
+  `$${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+// Rounds up to the next cent, since thresholds must be exceeded rather than met
+const amountToExceed = (gap: number) => Math.ceil((gap + 0.001) * 100) / 100;
+
+// How far a deal is from the next payout under a plan, for the sale form's what-if panel.
+// Payouts are scaled to the salesperson's split on a shared deal.
+export function getNextTierHints(rules: CommissionPlanRules, deal: DealAmounts, creditedPercentage = 100): string[] {
+  const hints: string[] = [];
+  const credit = (amount: number) => Math.round(amount * creditedPercentage) / 100;
+
+  const currentCarAmount = getCarTierAmount(rules, deal.sale_price);
+  const nextCarTier = [...rules.car_tiers]
+    .sort((a, b) => a.min_price - b.min_price)
+    .find(tier => tier.min_price > deal.sale_price && tier.amount > currentCarAmount);
+  if (nextCarTier) {
+    hints.push(
+      `${formatAmount(nextCarTier.min_price - deal.sale_price)} more in sale price earns +${formatAmount(credit(nextCarTier.amount - currentCarAmount))}`
+    );
+  }
+
+  const accessoriesPrice = deal.accessories_price || 0;
+  const threshold = deal.sale_type === 'New'
+    ? rules.accessories.new_threshold
+    : rules.accessories.used_threshold;
+  const accessoriesGap = threshold + rules.accessories.min_excess - accessoriesPrice;
+  if (accessoriesGap >= 0 && rules.accessories.amount > 0) {
+    hints.push(
+      `${formatAmount(amountToExceed(accessoriesGap))} more in accessories earns +${formatAmount(credit(rules.accessories.amount))}`
+    );
+  }
+
+  if (deal.warranty_price && deal.warranty_cost && rules.warranty.profit_step > 0 && rules.warranty.amount_per_step > 0) {
+    const profit = deal.warranty_price - deal.warranty_cost;
+    const nextStep = (Math.floor(profit / rules.warranty.profit_step) + 1) * rules.warranty.profit_step;
+    hints.push(
+      `${formatAmount(nextStep - profit)} more warranty profit earns +${formatAmount(credit(rules.warranty.amount_per_step))}`
+    );
+  }
+
+  const maintenanceGap = rules.maintenance.min_price - (deal.maintenance_price || 0);
+  if (maintenanceGap >= 0 && rules.maintenance.amount > 0) {
+    hints.push(
+      `${formatAmount(amountToExceed(maintenanceGap))} more in maintenance earns +${formatAmount(credit(rules.maintenance.amount))}`
+    );
+  }
+
+  return hints;
+}
@@ -0,0 +1,71 @@
+import { DealStatus, SaleEntry } from './supabase';
+import { FuzzyMatch, findSimilar, fuzzySearch } from './fuzzy';
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone?: string | null;
+  email?: string | null;
+  address?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export type CustomerContact = Pick<Customer, 'phone' | 'email' | 'address'>;
+
+// A deal in a customer's history, from any salesperson
+export interface CustomerSale {
+  id: string;
+  date: string;
+  stock_number: string;
+  sale_type: SaleEntry['sale_type'];
+  vehicle_year?: number | null;
+  vehicle_make?: string | null;
+  vehicle_model?: string | null;
+  vin?: string | null;
+  deal_status?: DealStatus | null;
+  unwound_at?: string | null;
+  has_trade_in: boolean;
+  salesperson_email?: string | null;
+  shared_with_emails: string[];
+}
+
+export interface CustomerHistory {
+  customer: Customer | null;
+  sales: CustomerSale[];
+}
+
+const digitsOnly = (value?: string | null) => (value || '').replace(/\D/g, '').slice(-10);
+
+// What the picker shows under a name to tell customers apart
+export const describeContact = (customer: CustomerContact) =>
+  [customer.phone, customer.email].filter(Boolean).join(' · ');
+
+export function suggestCustomers(query: string, customers: Customer[]) {
+  return fuzzySearch(query, customers, customer => customer.name);
+}
+
+// Existing customers a new one is probably a duplicate of: a similar name,
+// or the same phone number or email under any name
+export function findDuplicateCustomers(
+  name: string,
+  contact: CustomerContact,
+  customers: Customer[]
+): FuzzyMatch<Customer>[] {
+  const phone = digitsOnly(contact.phone);
+  const email = contact.email?.trim().toLowerCase();
+  const sameContact = customers
+    .filter(customer =>
+      (phone.length === 10 && digitsOnly(customer.phone) === phone) ||
+      (!!email && customer.email?.trim().toLowerCase() === email)
+    )
+    .map(customer => ({ item: customer, score: 1 }));
+
+  const similarNames = findSimilar(name, customers, customer => customer.name)
+    .filter(match => !sameContact.some(other => other.item.id === match.item.id));
+
+  return [...sameContact, ...similarNames];
+}
+
+// Trade-in deals, and sales where the customer traded a vehicle in
+export const isTradeIn = (sale: CustomerSale) => sale.sale_type === 'Trade-In' || sale.has_trade_in;
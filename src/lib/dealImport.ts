@@ -0,0 +1,177 @@
+import * as XLSX from 'xlsx';
+import { format, isValid, parse } from 'date-fns';
+import { SaleEntry } from './supabase';
+import { decodeVin, normalizeVin, validateVin } from './vin';
+
+export type ImportField =
+  | 'stock_number'
+  | 'customer_name'
+  | 'sale_type'
+  | 'vehicle_model'
+  | 'vin'
+  | 'sale_price'
+  | 'accessories_price'
+  | 'warranty_price'
+  | 'warranty_cost'
+  | 'maintenance_price'
+  | 'maintenance_cost'
+  | 'date';
+
+// Column index in the uploaded file for each field, or -1 when unmapped
+export type ColumnMapping = Record<ImportField, number>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'stock_number', label: 'Stock Number', required: true, aliases: ['stock', 'stock #', 'stock no', 'stk', 'stock number'] },
+  { field: 'customer_name', label: 'Customer Name', required: true, aliases: ['customer', 'buyer', 'buyer name', 'customer name'] },
+  { field: 'sale_type', label: 'Sale Type', required: true, aliases: ['type', 'new/used', 'n/u', 'vehicle type', 'sale type', 'deal type'] },
+  { field: 'vehicle_model', label: 'Vehicle Model', required: false, aliases: ['model', 'vehicle model', 'make/model', 'model description'] },
+  { field: 'vin', label: 'VIN', required: false, aliases: ['vin', 'vin #', 'vin number', 'serial number'] },
+  { field: 'sale_price', label: 'Sale Price', required: true, aliases: ['price', 'selling price', 'cash price', 'sale price'] },
+  { field: 'accessories_price', label: 'Accessories Price', required: false, aliases: ['accessories', 'accessories price', 'add ons'] },
+  { field: 'warranty_price', label: 'Warranty Price', required: false, aliases: ['warranty', 'service contract', 'warranty price'] },
+  { field: 'warranty_cost', label: 'Warranty Cost', required: false, aliases: ['warranty cost', 'service contract cost'] },
+  { field: 'maintenance_price', label: 'Maintenance Price', required: false, aliases: ['maintenance', 'maintenance price'] },
+  { field: 'maintenance_cost', label: 'Maintenance Cost', required: false, aliases: ['maintenance cost'] },
+  { field: 'date', label: 'Date Sold', required: true, aliases: ['date', 'deal date', 'delivery date', 'contract date', 'sold date', 'date sold'] },
+];
+
+// Two-digit years first; 'yyyy' would read "1/15/24" as the year 24
+const DATE_FORMATS = ['yyyy-MM-dd', 'M/d/yy', 'M/d/yyyy', 'M-d-yyyy'];
+
+export type ImportedSale = Omit<SaleEntry, 'id'>;
+
+export interface ImportRow {
+  rowNumber: number;
+  sale: ImportedSale;
+  errors: string[];
+  duplicate: boolean;
+}
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export async function readImportFile(file: File): Promise<ImportSheet> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: false });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const [headers = [], ...rows] = XLSX.utils.sheet_to_json<string[]>(sheet, {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: false,
+  });
+
+  return {
+    headers: headers.map(header => String(header).trim()),
+    rows: rows.map(row => row.map(cell => String(cell).trim())),
+  };
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9#/ ]/g, '').trim();
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+
+  return IMPORT_FIELDS.reduce((mapping, { field, aliases }) => {
+    // Prefer exact alias matches so "Warranty Cost" doesn't land on warranty_price
+    const exact = normalized.findIndex(header => aliases.includes(header));
+    mapping[field] = exact !== -1
+      ? exact
+      : normalized.findIndex(header => aliases.some(alias => header.startsWith(alias)));
+    return mapping;
+  }, {} as ColumnMapping);
+}
+
+function parseAmount(value: string) {
+  if (!value) return 0;
+  const negative = /^\(.*\)$/.test(value);
+  const amount = Number(value.replace(/[$,()\s]/g, ''));
+  return negative ? -amount : amount;
+}
+
+function parseSaleType(value: string): SaleEntry['sale_type'] | null {
+  const type = value.toLowerCase();
+  if (type === 'u' || type.startsWith('used') || type.startsWith('pre')) return 'Used';
+  if (type === 'n' || type.startsWith('new')) return 'New';
+  if (type.startsWith('trade')) return 'Trade-In';
+  return null;
+}
+
+function parseDate(value: string) {
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(value, dateFormat, new Date());
+    if (isValid(date)) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+}
+
+// Turns mapped spreadsheet rows into sales, flagging anything that can't be
+// imported. Stock numbers already on file or repeated in the sheet are duplicates.
+export function buildImportRows(
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  userId: string,
+  existingStockNumbers: Set<string>
+): ImportRow[] {
+  const seen = new Set<string>();
+
+  return sheet.rows.map((row, index) => {
+    const value = (field: ImportField) => (mapping[field] >= 0 ? row[mapping[field]] || '' : '');
+    const errors: string[] = [];
+
+    IMPORT_FIELDS.filter(({ required }) => required).forEach(({ field, label }) => {
+      if (!value(field)) errors.push(`${label} is required`);
+    });
+
+    const saleType = value('sale_type') ? parseSaleType(value('sale_type')) : null;
+    if (value('sale_type') && !saleType) errors.push(`Unknown sale type "${value('sale_type')}"`);
+
+    const date = value('date') ? parseDate(value('date')) : null;
+    if (value('date') && !date) errors.push(`Unrecognized date "${value('date')}"`);
+
+    const vinError = value('vin') ? validateVin(value('vin')) : null;
+    if (vinError) errors.push(`VIN ${value('vin')}: ${vinError}`);
+    const decodedVin = decodeVin(value('vin'));
+
+    const amounts = {
+      sale_price: parseAmount(value('sale_price')),
+      accessories_price: parseAmount(value('accessories_price')),
+      warranty_price: parseAmount(value('warranty_price')),
+      warranty_cost: parseAmount(value('warranty_cost')),
+      maintenance_price: parseAmount(value('maintenance_price')),
+      maintenance_cost: parseAmount(value('maintenance_cost')),
+    };
+    Object.entries(amounts).forEach(([field, amount]) => {
+      if (Number.isNaN(amount) || amount < 0) {
+        const label = IMPORT_FIELDS.find(importField => importField.field === field)?.label;
+        errors.push(`${label} must be a positive number`);
+      }
+    });
+
+    const stockNumber = value('stock_number');
+    const duplicate = !!stockNumber && (existingStockNumbers.has(stockNumber) || seen.has(stockNumber));
+    seen.add(stockNumber);
+
+    return {
+      rowNumber: index + 2,
+      sale: {
+        user_id: userId,
+        stock_number: stockNumber,
+        customer_name: value('customer_name'),
+        // Blank on rows with an error, like the date; those aren't imported
+        sale_type: saleType || ('' as SaleEntry['sale_type']),
+        vehicle_model: value('vehicle_model') || null,
+        vin: normalizeVin(value('vin')) || null,
+        vehicle_year: decodedVin?.modelYear || null,
+        vehicle_make: decodedVin?.make || null,
+        ...amounts,
+        // DMS exports only list delivered deals; funding is confirmed in the app
+        deal_status: 'delivered',
+        date: date || '',
+      },
+      errors,
+      duplicate,
+    };
+  });
+}
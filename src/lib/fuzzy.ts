@@ -0,0 +1,105 @@
+// Forgiving name matching for customer lookups: case, accents, punctuation
+// and word order are ignored, and small typos still match.
+
+export interface FuzzyMatch<T> {
+  item: T;
+  // 0 to 1, where 1 is an exact match
+  score: number;
+}
+
+// Autocomplete suggestions at or above this score are shown
+export const SUGGESTION_THRESHOLD = 0.7;
+
+// Two names at or above this score probably belong to the same person
+export const DUPLICATE_THRESHOLD = 0.7;
+
+export function normalizeText(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9@\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const tokenize = (value: string) => normalizeText(value).split(' ').filter(Boolean);
+
+export function levenshtein(a: string, b: string) {
+  if (a === b) return 0;
+  if (!a) return b.length;
+  if (!b) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 minus the edit distance relative to the longer string
+export function similarity(a: string, b: string) {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+// How well every word of the query is covered by some word of the
+// candidate. A word the candidate starts with counts as a full match, so
+// "jo smi" finds "John Smith" while it's being typed.
+function coverage(queryTokens: string[], candidateTokens: string[]) {
+  if (queryTokens.length === 0 || candidateTokens.length === 0) return 0;
+
+  const total = queryTokens.reduce((sum, queryToken) => sum + Math.max(
+    ...candidateTokens.map(candidateToken =>
+      candidateToken.startsWith(queryToken) ? 1 : similarity(queryToken, candidateToken)
+    )
+  ), 0);
+  return total / queryTokens.length;
+}
+
+export function scoreMatch(query: string, candidate: string) {
+  return coverage(tokenize(query), tokenize(candidate));
+}
+
+// Symmetric, so "J. Smith" and "John Smith" score the same either way round
+export function nameSimilarity(a: string, b: string) {
+  const aTokens = tokenize(a);
+  const bTokens = tokenize(b);
+  return (coverage(aTokens, bTokens) + coverage(bTokens, aTokens)) / 2;
+}
+
+// Best matches first
+export function fuzzySearch<T>(
+  query: string,
+  items: T[],
+  getText: (item: T) => string,
+  { threshold = SUGGESTION_THRESHOLD, limit = 8 } = {}
+): FuzzyMatch<T>[] {
+  if (!normalizeText(query)) return [];
+
+  return items
+    .map(item => ({ item, score: scoreMatch(query, getText(item)) }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Items whose text probably names the same thing, most similar first
+export function findSimilar<T>(
+  text: string,
+  items: T[],
+  getText: (item: T) => string,
+  threshold = DUPLICATE_THRESHOLD
+): FuzzyMatch<T>[] {
+  if (!normalizeText(text)) return [];
+
+  return items
+    .map(item => ({ item, score: nameSimilarity(text, getText(item)) }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,75 @@
+import { SaleEntry } from './supabase';
+
+export type IncentiveProduct = 'accessories' | 'warranty' | 'maintenance';
+
+export const INCENTIVE_PRODUCT_LABELS: Record<IncentiveProduct, string> = {
+  accessories: 'Accessories',
+  warranty: 'Extended Warranty',
+  maintenance: 'Maintenance Plan',
+};
+
+export interface IncentiveProgram {
+  id: string;
+  name: string;
+  amount: number;
+  start_date: string;
+  end_date: string;
+  sale_types: SaleEntry['sale_type'][];
+  model?: string | null;
+  min_product?: IncentiveProduct | null;
+  min_product_price: number;
+  active: boolean;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+const PRODUCT_PRICES: Record<IncentiveProduct, (sale: SaleEntry) => number> = {
+  accessories: sale => Number(sale.accessories_price) || 0,
+  warranty: sale => Number(sale.warranty_price) || 0,
+  maintenance: sale => Number(sale.maintenance_price) || 0,
+};
+
+const normalizeModel = (model: string) => model.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export function isEligible(sale: SaleEntry, program: IncentiveProgram) {
+  const saleDate = sale.date.split('T')[0];
+  if (!program.active || saleDate < program.start_date || saleDate > program.end_date) return false;
+  if (sale.deal_status === 'cancelled' || sale.unwound_at) return false;
+  if (program.sale_types.length > 0 && !program.sale_types.includes(sale.sale_type)) return false;
+
+  if (program.model) {
+    if (!sale.vehicle_model) return false;
+    if (!normalizeModel(sale.vehicle_model).includes(normalizeModel(program.model))) return false;
+  }
+
+  // A product rule with no minimum still requires the product to be sold
+  if (program.min_product) {
+    const price = PRODUCT_PRICES[program.min_product](sale);
+    if (price <= 0 || price < program.min_product_price) return false;
+  }
+
+  return true;
+}
+
+// Programs a sale qualifies for that it hasn't already claimed
+export function matchIncentivePrograms(
+  sale: SaleEntry,
+  programs: IncentiveProgram[],
+  claimedProgramIds: Set<string> = new Set()
+) {
+  return programs.filter(program => !claimedProgramIds.has(program.id) && isEligible(sale, program));
+}
+
+// One-line summary of a program's rules for lists and suggestions
+export function describeEligibility(program: IncentiveProgram) {
+  const rules = [
+    program.sale_types.length > 0 ? program.sale_types.join('/') : 'Any sale',
+    program.model ? program.model : null,
+    program.min_product
+      ? `with ${INCENTIVE_PRODUCT_LABELS[program.min_product].toLowerCase()}${
+          program.min_product_price > 0 ? ` of $${program.min_product_price.toLocaleString()}+` : ''
+        }`
+      : null,
+  ];
+  return rules.filter(Boolean).join(' · ');
+}
@@ -0,0 +1,41 @@
+import { differenceInCalendarDays } from 'date-fns';
+
+export type VehicleCondition = 'New' | 'Used';
+
+export interface Vehicle {
+  id: string;
+  stock_number: string;
+  vin?: string | null;
+  year?: number | null;
+  make: string;
+  model: string;
+  trim?: string | null;
+  condition: VehicleCondition;
+  cost: number;
+  received_at: string;
+  created_by?: string | null;
+  created_at?: string;
+  // From the vehicle_inventory view: the sale that sold the vehicle, if any
+  sale_id?: string | null;
+  sold_on?: string | null;
+}
+
+export const normalizeStockNumber = (stockNumber: string) => stockNumber.trim().toUpperCase();
+
+// What a sale records as its model, e.g. "Outlander PHEV SEL"
+export const getVehicleModel = (vehicle: Vehicle) =>
+  [vehicle.model, vehicle.trim].filter(Boolean).join(' ');
+
+// e.g. "2024 Mitsubishi Outlander PHEV SEL"
+export const describeVehicle = (vehicle: Vehicle) =>
+  [vehicle.year, vehicle.make, getVehicleModel(vehicle)].filter(Boolean).join(' ');
+
+// Counted up to the sale date for sold vehicles
+export function getDaysInStock(vehicle: Vehicle, today = new Date()) {
+  const end = vehicle.sold_on ? new Date(`${vehicle.sold_on.split('T')[0]}T00:00:00`) : today;
+  return Math.max(0, differenceInCalendarDays(end, new Date(`${vehicle.received_at}T00:00:00`)));
+}
+
+// Sold by a sale other than the one being edited
+export const isSoldElsewhere = (vehicle: Vehicle, saleId?: string) =>
+  !!vehicle.sale_id && vehicle.sale_id !== saleId;
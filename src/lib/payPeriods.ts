@@ -0,0 +1,125 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  lastDayOfMonth,
+  parseISO,
+  startOfMonth,
+  subDays,
+  subYears,
+} from 'date-fns';
+
+export type PayPeriodType = 'monthly' | 'semi-monthly' | 'bi-weekly';
+
+export interface PayPeriodDefinition {
+  type: PayPeriodType;
+  // First day of any bi-weekly period; every other period follows in 14-day steps
+  anchor_date?: string;
+}
+
+// Both ends are inclusive and fall at the start of their day
+export interface PayPeriod {
+  start: Date;
+  end: Date;
+}
+
+export const PAY_PERIOD_LABELS: Record<PayPeriodType, string> = {
+  monthly: 'Monthly',
+  'semi-monthly': 'Semi-monthly (1st–15th, 16th–end)',
+  'bi-weekly': 'Bi-weekly',
+};
+
+// yyyy-MM-dd bounds, both inclusive, as stored on sales and spiffs
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+export type ComparisonMode = 'previous' | 'last-year';
+
+export const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  previous: 'previous period',
+  'last-year': 'same period last year',
+};
+
+export const DEFAULT_PAY_PERIOD: PayPeriodDefinition = { type: 'monthly' };
+
+const DEFAULT_BI_WEEKLY_ANCHOR = '2024-01-01';
+
+export function getPayPeriod(date: Date, definition: PayPeriodDefinition): PayPeriod {
+  switch (definition.type) {
+    case 'semi-monthly':
+      return date.getDate() <= 15
+        ? { start: startOfMonth(date), end: new Date(date.getFullYear(), date.getMonth(), 15) }
+        : { start: new Date(date.getFullYear(), date.getMonth(), 16), end: lastDayOfMonth(date) };
+    case 'bi-weekly': {
+      const anchor = parseISO(definition.anchor_date || DEFAULT_BI_WEEKLY_ANCHOR);
+      const index = Math.floor(differenceInCalendarDays(date, anchor) / 14);
+      const start = addDays(anchor, index * 14);
+      return { start, end: addDays(start, 13) };
+    }
+    default:
+      return { start: startOfMonth(date), end: lastDayOfMonth(date) };
+  }
+}
+
+export function getPreviousPayPeriod(period: PayPeriod, definition: PayPeriodDefinition) {
+  return getPayPeriod(subDays(period.start, 1), definition);
+}
+
+export function getNextPayPeriod(period: PayPeriod, definition: PayPeriodDefinition) {
+  return getPayPeriod(addDays(period.end, 1), definition);
+}
+
+export function getComparisonPeriod(
+  period: PayPeriod,
+  definition: PayPeriodDefinition,
+  mode: ComparisonMode
+) {
+  return mode === 'last-year'
+    ? getPayPeriod(subYears(period.start, 1), definition)
+    : getPreviousPayPeriod(period, definition);
+}
+
+export function formatPayPeriod(period: PayPeriod, definition: PayPeriodDefinition) {
+  if (definition.type === 'monthly') {
+    return format(period.start, 'MMMM yyyy');
+  }
+  return `${format(period.start, 'MMM d')} – ${format(period.end, 'MMM d, yyyy')}`;
+}
+
+export function toDateRange(period: PayPeriod): DateRange {
+  return {
+    startDate: format(period.start, 'yyyy-MM-dd'),
+    endDate: format(period.end, 'yyyy-MM-dd'),
+  };
+}
+
+export function isInPeriod(date: string, period: PayPeriod) {
+  const { startDate, endDate } = toDateRange(period);
+  const day = date.split('T')[0];
+  return day >= startDate && day <= endDate;
+}
+
+// Volume bonuses are monthly. They are paid in the period holding the month's
+// last day; earlier periods of the month only show progress.
+export function getBonusMonth(period: PayPeriod) {
+  const firstMonthEnd = lastDayOfMonth(period.start);
+  const monthEnd = firstMonthEnd <= period.end ? firstMonthEnd : lastDayOfMonth(period.end);
+
+  return {
+    start: startOfMonth(monthEnd),
+    end: monthEnd <= period.end ? monthEnd : period.end,
+    monthEnd,
+    paidInPeriod: monthEnd <= period.end,
+  };
+}
+
+// Every date a period's figures depend on, including month-to-date volume
+export function getFetchRange(period: PayPeriod): PayPeriod {
+  const bonusMonth = getBonusMonth(period);
+  return {
+    start: bonusMonth.start < period.start ? bonusMonth.start : period.start,
+    end: period.end,
+  };
+}
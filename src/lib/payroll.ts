@@ -0,0 +1,195 @@
+import { format } from 'date-fns';
+import { PeriodEntries, isApproved } from './supabase';
+import { CommissionPlan } from './commissionPlans';
+import { PayPeriod } from './payPeriods';
+import { filterEntriesByPeriod, getPeriodCredits, getUserEntries } from './periodSummary';
+import { buildStatement } from './statement';
+import {
+  EarningsCategory,
+  PAYROLL_FIELD_LABELS,
+  PayrollColumn,
+  PayrollEmployee,
+  PayrollField,
+  PayrollLayout,
+} from './payrollLayout';
+
+export interface PayrollLine {
+  employee: PayrollEmployee;
+  category: EarningsCategory;
+  amount: number;
+}
+
+export interface PayrollBalance {
+  employee: PayrollEmployee;
+  // Earned commissions added up entry by entry, apart from the export lines
+  expected: number;
+  exported: number;
+  balanced: boolean;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// What a user earned in the period in cents, summed deal by deal, spiff by
+// spiff and chargeback by chargeback instead of by earnings category. Deals
+// count in the period they were funded or their share was accepted.
+function getEarnedCents(userEntries: PeriodEntries, period: PayPeriod, plans: CommissionPlan[], userId: string) {
+  const { spiffs, chargebacks } = filterEntriesByPeriod(userEntries, period);
+  const sumCents = (amounts: number[]) => amounts.reduce((sum, amount) => sum + toCents(amount), 0);
+
+  return (
+    sumCents(getPeriodCredits(userEntries.sales, period, plans, userId)
+      .map(({ commissions }) => commissions.totalCommission)) +
+    sumCents(spiffs.filter(isApproved).map(spiff => Number(spiff.amount))) +
+    sumCents(chargebacks.map(chargeback => Number(chargeback.amount)))
+  );
+}
+
+export type Payroll = ReturnType<typeof buildPayroll>;
+
+// One line per employee per earnings code, plus a check that the lines
+// exported for each employee add up to what they earned
+export function buildPayroll(
+  entries: PeriodEntries,
+  employees: PayrollEmployee[],
+  period: PayPeriod,
+  plans: CommissionPlan[]
+) {
+  const lines: PayrollLine[] = [];
+  const earned = new Map<string, number>();
+
+  employees.forEach(employee => {
+    const userEntries = getUserEntries(entries, employee.id);
+    const { dealSubtotals, summary } = buildStatement(userEntries, period, plans, {
+      userId: employee.id,
+      salesperson: employee.email,
+      periodLabel: '',
+    });
+
+    const amounts: Record<EarningsCategory, number> = {
+      car: dealSubtotals.carCommission,
+      fi: dealSubtotals.accessoriesCommission + dealSubtotals.warrantyCommission + dealSubtotals.maintenanceCommission,
+      spiff: summary.spiffTotal,
+      trade_in: dealSubtotals.tradeInCommission,
+      bonus: summary.volumeBonus.bonus,
+      chargeback: summary.chargebackTotal,
+    };
+
+    lines.push(...(Object.keys(amounts) as EarningsCategory[])
+      .filter(category => toCents(amounts[category]) !== 0)
+      .map(category => ({ employee, category, amount: toCents(amounts[category]) / 100 })));
+
+    // The volume bonus is a single monthly figure with nothing to add up
+    earned.set(
+      employee.id,
+      getEarnedCents(userEntries, period, plans, employee.id) + toCents(summary.volumeBonus.bonus)
+    );
+  });
+
+  // Reconciled against the finished export, so a dropped, duplicated or
+  // misattributed line puts the employee out of balance
+  const balances: PayrollBalance[] = [];
+  employees.forEach(employee => {
+    const employeeLines = lines.filter(line => line.employee.id === employee.id);
+    const exported = employeeLines.reduce((sum, line) => sum + toCents(line.amount), 0);
+    const expected = earned.get(employee.id) || 0;
+
+    if (employeeLines.length > 0 || expected !== 0) {
+      balances.push({
+        employee,
+        expected: expected / 100,
+        exported: exported / 100,
+        balanced: exported === expected,
+      });
+    }
+  });
+
+  const total = lines.reduce((sum, line) => sum + toCents(line.amount), 0) / 100;
+
+  return {
+    lines,
+    balances,
+    total,
+    balanced: balances.every(balance => balance.balanced),
+  };
+}
+
+function getFieldValue(line: PayrollLine, field: PayrollField, layout: PayrollLayout, period: PayPeriod) {
+  switch (field) {
+    case 'employee_number':
+      return line.employee.employee_number || line.employee.email;
+    case 'employee_name':
+      return line.employee.email.split('@')[0];
+    case 'earnings_code':
+      return layout.earnings_codes[line.category];
+    case 'amount':
+      return layout.amount_format === 'cents' ? String(toCents(line.amount)) : line.amount.toFixed(2);
+    case 'period_start':
+      return format(period.start, layout.date_format);
+    case 'period_end':
+      return format(period.end, layout.date_format);
+  }
+}
+
+const escapeCsv = (value: string, delimiter: string) =>
+  value.includes(delimiter) || value.includes('"') || value.includes('\n')
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+// Values that don't fit a fixed-width column would be cut off, so they're
+// reported instead of exported
+export function getLayoutErrors(lines: PayrollLine[], layout: PayrollLayout, period: PayPeriod) {
+  if (layout.format !== 'fixed-width') return [];
+
+  const errors: string[] = [];
+  lines.forEach(line => {
+    layout.columns.forEach(column => {
+      const value = getFieldValue(line, column.field, layout, period);
+      if (value.length > column.width) {
+        errors.push(`${PAYROLL_FIELD_LABELS[column.field]} "${value}" is wider than ${column.width} characters`);
+      }
+    });
+  });
+  return errors;
+}
+
+// Amounts are right-aligned and zero-filled after the sign; text is left-aligned
+function fitColumn(value: string, column: PayrollColumn) {
+  if (column.field !== 'amount') return value.padEnd(column.width).slice(0, column.width);
+  return value.startsWith('-')
+    ? `-${value.slice(1).padStart(column.width - 1, '0')}`
+    : value.padStart(column.width, '0');
+}
+
+export function formatPayrollFile(lines: PayrollLine[], layout: PayrollLayout, period: PayPeriod) {
+  const rows = lines.map(line =>
+    layout.columns.map(column => getFieldValue(line, column.field, layout, period))
+  );
+
+  if (layout.format === 'fixed-width') {
+    const header = layout.columns.map(column => column.header.padEnd(column.width).slice(0, column.width)).join('');
+    const records = rows.map(values => values.map((value, index) => fitColumn(value, layout.columns[index])).join(''));
+    return [...(layout.include_header ? [header] : []), ...records].join('\r\n');
+  }
+
+  const header = layout.columns.map(column => column.header);
+  return [...(layout.include_header ? [header] : []), ...rows]
+    .map(values => values.map(value => escapeCsv(value, layout.delimiter)).join(layout.delimiter))
+    .join('\r\n');
+}
+
+// Refuses to write a file that doesn't balance
+export function downloadPayrollFile(payroll: Payroll, layout: PayrollLayout, period: PayPeriod) {
+  if (!payroll.balanced) {
+    throw new Error('Payroll is out of balance');
+  }
+
+  const contents = formatPayrollFile(payroll.lines, layout, period);
+  const extension = layout.format === 'csv' ? 'csv' : 'txt';
+  const blob = new Blob([`${contents}\r\n`], { type: 'text/plain;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `payroll-${format(period.start, 'yyyy-MM-dd')}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,75 @@
+export type EarningsCategory = 'car' | 'fi' | 'spiff' | 'trade_in' | 'bonus' | 'chargeback';
+
+export const EARNINGS_CATEGORY_LABELS: Record<EarningsCategory, string> = {
+  car: 'Car Commission',
+  fi: 'F&I (Accessories, Warranty, Maintenance)',
+  spiff: 'Spiffs',
+  trade_in: 'Trade-In Commission',
+  bonus: 'Volume Bonus',
+  chargeback: 'Chargebacks',
+};
+
+export type PayrollField =
+  | 'employee_number'
+  | 'employee_name'
+  | 'earnings_code'
+  | 'amount'
+  | 'period_start'
+  | 'period_end';
+
+export const PAYROLL_FIELD_LABELS: Record<PayrollField, string> = {
+  employee_number: 'Employee Number',
+  employee_name: 'Employee Name',
+  earnings_code: 'Earnings Code',
+  amount: 'Amount',
+  period_start: 'Period Start',
+  period_end: 'Period End',
+};
+
+export interface PayrollColumn {
+  field: PayrollField;
+  header: string;
+  // Only used by the fixed-width format
+  width: number;
+}
+
+export interface PayrollLayout {
+  format: 'csv' | 'fixed-width';
+  delimiter: string;
+  include_header: boolean;
+  // 'cents' writes $1,234.56 as 123456, as most fixed-width imports expect
+  amount_format: 'decimal' | 'cents';
+  date_format: string;
+  columns: PayrollColumn[];
+  earnings_codes: Record<EarningsCategory, string>;
+}
+
+export const DEFAULT_PAYROLL_LAYOUT: PayrollLayout = {
+  format: 'csv',
+  delimiter: ',',
+  include_header: true,
+  amount_format: 'decimal',
+  date_format: 'MM/dd/yyyy',
+  columns: [
+    { field: 'employee_number', header: 'EmployeeID', width: 10 },
+    { field: 'employee_name', header: 'Name', width: 30 },
+    { field: 'earnings_code', header: 'EarnCode', width: 6 },
+    { field: 'amount', header: 'Amount', width: 12 },
+    { field: 'period_start', header: 'PeriodStart', width: 10 },
+    { field: 'period_end', header: 'PeriodEnd', width: 10 },
+  ],
+  earnings_codes: {
+    car: 'COMM',
+    fi: 'FI',
+    spiff: 'SPIFF',
+    trade_in: 'TRADE',
+    bonus: 'BONUS',
+    chargeback: 'CHGBK',
+  },
+};
+
+export interface PayrollEmployee {
+  id: string;
+  email: string;
+  employee_number?: string | null;
+}
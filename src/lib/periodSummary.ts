@@ -0,0 +1,171 @@
+import {
+  SaleEntry,
+  SaleShare,
+  ChargebackEntry,
+  PeriodEntries,
+  calculateCommissions,
+  calculateVolumeBonus,
+  countUnits,
+  getActiveShares,
+  getUserShare,
+  isApproved,
+  isFunded,
+} from './supabase';
+import { CommissionPlan } from './commissionPlans';
+import { PayPeriod, getBonusMonth, isInPeriod, toDateRange } from './payPeriods';
+
+export const EMPTY_PERIOD_ENTRIES: PeriodEntries = { sales: [], spiffs: [], chargebacks: [] };
+
+export function filterEntriesByPeriod(entries: PeriodEntries, period: PayPeriod): PeriodEntries {
+  return {
+    sales: entries.sales.filter(sale => isInPeriod(sale.date, period)),
+    spiffs: entries.spiffs.filter(spiff => isInPeriod(spiff.date, period)),
+    chargebacks: entries.chargebacks.filter(chargeback => isInPeriod(chargeback.date, period)),
+  };
+}
+
+// What a user is credited with out of entries loaded for several people:
+// their own sales, shares they accepted, and their spiffs and chargebacks
+export function getUserEntries(entries: PeriodEntries, userId: string): PeriodEntries {
+  return {
+    sales: entries.sales.filter(sale =>
+      sale.user_id === userId ||
+      getUserShare(sale, userId)?.status === 'accepted'
+    ),
+    spiffs: entries.spiffs.filter(spiff => spiff.user_id === userId),
+    chargebacks: entries.chargebacks.filter(chargeback => chargeback.user_id === userId),
+  };
+}
+
+const toDay = (date: string) => date.split('T')[0];
+
+const roundPercentage = (value: number) => Math.round(value * 100) / 100;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// When a user is credited each part of a deal: the seller gets the whole deal
+// the day it's funded, and an accepted share moves its part to the participant
+// on the later of the funding and acceptance days
+function getCreditSteps(sale: SaleEntry, userId?: string): { date: string; percentage: number }[] {
+  if (sale.deal_status === 'cancelled' || !isFunded(sale)) return [];
+
+  const fundedDay = toDay(sale.funded_at || sale.date);
+  const settledDay = (share: SaleShare) => {
+    const acceptedDay = share.responded_at ? toDay(share.responded_at) : fundedDay;
+    return acceptedDay > fundedDay ? acceptedDay : fundedDay;
+  };
+  const accepted = (sale.sale_shares || []).filter(share => share.status === 'accepted');
+
+  if (userId && userId !== sale.user_id) {
+    const share = accepted.find(saleShare => saleShare.user_id === userId);
+    return share ? [{ date: settledDay(share), percentage: Number(share.percentage) }] : [];
+  }
+
+  return [
+    { date: fundedDay, percentage: 100 },
+    ...accepted.map(share => ({ date: settledDay(share), percentage: -Number(share.percentage) })),
+  ];
+}
+
+// What a user earned on a deal in a period: what they'd been credited by its
+// end less what they'd been credited before it, so a deal funded or a share
+// accepted after its sale date's period was paid is picked up when it happens
+function getPeriodCredit(sale: SaleEntry, period: PayPeriod, plans: CommissionPlan[], userId?: string) {
+  const { startDate, endDate } = toDateRange(period);
+  const steps = getCreditSteps(sale, userId);
+  if (!steps.some(step => step.date >= startDate && step.date <= endDate)) return null;
+
+  const sumSteps = (include: (date: string) => boolean) => roundPercentage(
+    steps.filter(step => include(step.date)).reduce((sum, step) => sum + step.percentage, 0)
+  );
+  const before = sumSteps(date => date < startDate);
+  const after = sumSteps(date => date <= endDate);
+  const earned = calculateCommissions(sale, plans, userId, after);
+  const paid = calculateCommissions(sale, plans, userId, before);
+
+  return {
+    carCommission: roundCents(earned.carCommission - paid.carCommission),
+    accessoriesCommission: roundCents(earned.accessoriesCommission - paid.accessoriesCommission),
+    warrantyCommission: roundCents(earned.warrantyCommission - paid.warrantyCommission),
+    maintenanceCommission: roundCents(earned.maintenanceCommission - paid.maintenanceCommission),
+    tradeInCommission: roundCents(earned.tradeInCommission - paid.tradeInCommission),
+    totalCommission: roundCents(earned.totalCommission - paid.totalCommission),
+    creditedPercentage: roundPercentage(after - before),
+  };
+}
+
+// Deals a user was credited for in a period, whenever they were sold
+export function getPeriodCredits(sales: SaleEntry[], period: PayPeriod, plans: CommissionPlan[], userId?: string) {
+  return sales.flatMap(sale => {
+    const commissions = getPeriodCredit(sale, period, plans, userId);
+    return commissions ? [{ sale, commissions }] : [];
+  });
+}
+
+export type PeriodCredit = ReturnType<typeof getPeriodCredits>[number];
+
+function countCreditedUnits(credits: PeriodCredit[], chargebacks: ChargebackEntry[]) {
+  const units = credits.reduce((sum, { commissions }) => sum + commissions.creditedPercentage / 100, 0) +
+    chargebacks.reduce((sum, chargeback) => sum + Number(chargeback.units), 0);
+  return Math.round(units * 10000) / 10000;
+}
+
+// The figures behind DashboardStats. `entries` may reach back to the start of
+// the month so the monthly volume bonus can be evaluated for shorter periods,
+// and include earlier sales funded or shared since. Sales figures follow the
+// sale date; commissions and units follow when they were credited.
+export function summarizePeriod(
+  entries: PeriodEntries,
+  period: PayPeriod,
+  plans: CommissionPlan[],
+  userId?: string
+) {
+  const { sales, spiffs, chargebacks } = filterEntriesByPeriod(entries, period);
+  const activeSales = sales.filter(sale => sale.deal_status !== 'cancelled');
+  const pendingSales = activeSales.filter(sale => !isFunded(sale));
+  const credits = getPeriodCredits(entries.sales, period, plans, userId);
+  const sumCommissions = (data: SaleEntry[]) => data.reduce((sum, sale) => {
+    const commissions = calculateCommissions(sale, plans, userId);
+    return sum + commissions.totalCommission;
+  }, 0);
+
+  // Volume bonuses are paid on funded units only, counted over the bonus month
+  const bonusMonth = getBonusMonth(period);
+  const monthUnits = countCreditedUnits(
+    getPeriodCredits(entries.sales, bonusMonth, plans, userId),
+    filterEntriesByPeriod(entries, bonusMonth).chargebacks
+  );
+  const monthVolume = calculateVolumeBonus(monthUnits, plans, toDateRange(bonusMonth).endDate);
+  const volumeBonus = {
+    ...monthVolume,
+    bonus: bonusMonth.paidInPeriod ? monthVolume.bonus : 0,
+    paidInPeriod: bonusMonth.paidInPeriod,
+  };
+
+  const dealCommissions = credits.reduce((sum, { commissions }) => sum + commissions.totalCommission, 0);
+  const spiffTotal = spiffs
+    .filter(isApproved)
+    .reduce((sum, spiff) => sum + Number(spiff.amount), 0);
+  const pendingSpiffTotal = spiffs
+    .filter(spiff => spiff.status === 'submitted')
+    .reduce((sum, spiff) => sum + Number(spiff.amount), 0);
+  const chargebackTotal = chargebacks.reduce((sum, chargeback) => sum + Number(chargeback.amount), 0);
+
+  return {
+    totalSales: activeSales.reduce((sum, sale) => sum + sale.sale_price, 0),
+    usedCars: activeSales.filter(sale => sale.sale_type === 'Used').length,
+    newCars: activeSales.filter(sale => sale.sale_type === 'New').length,
+    sharedSales: activeSales.filter(sale => getActiveShares(sale).length > 0).length,
+    units: countCreditedUnits(credits, chargebacks),
+    pendingUnits: countUnits(pendingSales, userId),
+    volumeBonus,
+    dealCommissions,
+    spiffTotal,
+    pendingSpiffTotal,
+    chargebackTotal,
+    earnedCommissions: dealCommissions + spiffTotal + volumeBonus.bonus + chargebackTotal,
+    pendingCommissions: sumCommissions(pendingSales),
+  };
+}
+
+export type PeriodSummary = ReturnType<typeof summarizePeriod>;
@@ -0,0 +1,218 @@
+import * as XLSX from 'xlsx';
+import {
+  SaleEntry,
+  SpiffEntry,
+  ChargebackEntry,
+  PeriodEntries,
+  SaleSummary,
+  DealStatus,
+  DEAL_STATUS_LABELS,
+  SPIFF_STATUS_LABELS,
+  calculateCommissions,
+  getActiveShares,
+  isApproved,
+} from './supabase';
+import { CommissionPlan } from './commissionPlans';
+
+export type GridRow = {
+  id: string;
+  date: string;
+  stock_number?: string;
+  customer_name?: string;
+  customer_id?: string;
+  // Year, make and model, e.g. "2024 Mitsubishi Outlander PHEV"
+  vehicle?: string;
+  vin?: string;
+  type: string;
+  status?: DealStatus;
+  carCommission: number;
+  accessoriesCommission: number;
+  warrantyCommission: number;
+  maintenanceCommission: number;
+  tradeInCommission: number;
+  totalCommission: number;
+  shared: boolean;
+  creditedPercentage: number;
+  // Other participants in the split
+  shared_with_emails?: string[];
+  shared_from_email?: string;
+  // Spiff note, spiff rejection reason or chargeback reason
+  note?: string;
+  isSpiff: boolean;
+  isChargeback: boolean;
+  isUnwound: boolean;
+  originalData: SaleEntry | SpiffEntry | ChargebackEntry;
+};
+
+export type GridSorting = { id: string; desc: boolean }[];
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+const emptyCommissions = {
+  carCommission: 0,
+  accessoriesCommission: 0,
+  warrantyCommission: 0,
+  maintenanceCommission: 0,
+  tradeInCommission: 0,
+};
+
+const describeSaleVehicle = (sale?: SaleSummary | null) =>
+  [sale?.vehicle_year, sale?.vehicle_make, sale?.vehicle_model].filter(Boolean).join(' ') || undefined;
+
+export function buildGridRows(
+  { sales, spiffs, chargebacks }: PeriodEntries,
+  plans: CommissionPlan[],
+  userId?: string,
+  statusFilter: DealStatus | 'all' = 'all'
+): GridRow[] {
+  const data: GridRow[] = [];
+
+  // Process sales
+  sales.forEach(sale => {
+    const commissions = calculateCommissions(sale, plans, userId);
+    const isSharedWithUser = sale.user_id !== userId;
+    const activeShares = getActiveShares(sale);
+    const sharedWith = activeShares.filter(share => share.user_id !== userId).map(share => share.email);
+
+    data.push({
+      id: sale.id,
+      date: sale.date,
+      stock_number: sale.stock_number,
+      customer_name: sale.customer_name,
+      customer_id: sale.customer_id || undefined,
+      vehicle: describeSaleVehicle(sale),
+      vin: sale.vin || undefined,
+      type: sale.unwound_at ? `${sale.sale_type} (Unwound)` : sale.sale_type,
+      status: sale.deal_status || 'funded',
+      carCommission: commissions.carCommission,
+      accessoriesCommission: commissions.accessoriesCommission,
+      warrantyCommission: commissions.warrantyCommission,
+      maintenanceCommission: commissions.maintenanceCommission,
+      tradeInCommission: commissions.tradeInCommission,
+      totalCommission: commissions.totalCommission,
+      shared: activeShares.length > 0,
+      creditedPercentage: commissions.creditedPercentage,
+      shared_with_emails: sharedWith.length > 0 ? sharedWith : undefined,
+      shared_from_email: isSharedWithUser ? sale.seller_email || 'another salesperson' : undefined,
+      note: sale.unwind_reason || undefined,
+      isSpiff: false,
+      isChargeback: false,
+      isUnwound: !!sale.unwound_at,
+      originalData: sale,
+    });
+  });
+
+  // Process spiffs
+  spiffs.forEach(spiff => {
+    data.push({
+      id: spiff.id,
+      date: spiff.date,
+      stock_number: spiff.sales?.stock_number,
+      customer_name: spiff.sales?.customer_name,
+      customer_id: spiff.sales?.customer_id || undefined,
+      vehicle: describeSaleVehicle(spiff.sales),
+      vin: spiff.sales?.vin || undefined,
+      type: isApproved(spiff) ? 'Spiff' : `Spiff (${SPIFF_STATUS_LABELS[spiff.status!]})`,
+      ...emptyCommissions,
+      totalCommission: spiff.amount,
+      shared: false,
+      creditedPercentage: 100,
+      note: (spiff.status === 'rejected' && spiff.rejection_reason) || spiff.note,
+      isSpiff: true,
+      isChargeback: false,
+      isUnwound: false,
+      originalData: spiff,
+    });
+  });
+
+  // Process chargebacks
+  chargebacks.forEach(chargeback => {
+    data.push({
+      id: chargeback.id,
+      date: chargeback.date,
+      stock_number: chargeback.sales?.stock_number,
+      customer_name: chargeback.sales?.customer_name,
+      customer_id: chargeback.sales?.customer_id || undefined,
+      vehicle: describeSaleVehicle(chargeback.sales),
+      vin: chargeback.sales?.vin || undefined,
+      type: 'Chargeback',
+      ...emptyCommissions,
+      totalCommission: Number(chargeback.amount),
+      shared: false,
+      creditedPercentage: 100,
+      note: chargeback.reason || undefined,
+      isSpiff: false,
+      isChargeback: true,
+      isUnwound: false,
+      originalData: chargeback,
+    });
+  });
+
+  return statusFilter === 'all' ? data : data.filter(row => row.status === statusFilter);
+}
+
+// Rows containing every word of the search, ignoring case, in the text a user
+// would recognize a deal by: stock number, customer, vehicle, VIN, type and note
+export function filterGridRows(rows: GridRow[], search: string) {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return rows;
+
+  return rows.filter(row => {
+    const text = [row.stock_number, row.customer_name, row.vehicle, row.vin, row.type, row.note]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+}
+
+// Applies the grid's column sorting to rows that were never rendered, e.g. a
+// year-to-date export. Empty values always sort last.
+export function sortGridRows(rows: GridRow[], sorting: GridSorting) {
+  if (sorting.length === 0) return rows;
+
+  return [...rows].sort((a, b) => {
+    for (const { id, desc } of sorting) {
+      const left = a[id as keyof GridRow];
+      const right = b[id as keyof GridRow];
+      if (left === right) continue;
+      if (left === undefined || left === null) return 1;
+      if (right === undefined || right === null) return -1;
+
+      const result = typeof left === 'string' && typeof right === 'string'
+        ? left.localeCompare(right, undefined, { numeric: true })
+        : Number(left) - Number(right);
+      if (result !== 0) return desc ? -result : result;
+    }
+    return 0;
+  });
+}
+
+function toSheetRows(rows: GridRow[]) {
+  return rows.map(row => ({
+    'Date': row.date.split('T')[0],
+    'Stock #': row.stock_number || '',
+    'Customer Name': row.customer_name || '',
+    'Vehicle': row.vehicle || '',
+    'VIN': row.vin || '',
+    'Type': row.type,
+    'Status': row.status ? DEAL_STATUS_LABELS[row.status] : '',
+    'Car Commission': row.carCommission,
+    'Accessories': row.accessoriesCommission,
+    'Warranty': row.warrantyCommission,
+    'Maintenance': row.maintenanceCommission,
+    'Trade-In': row.tradeInCommission,
+    'Total': row.totalCommission,
+    'Split %': row.creditedPercentage,
+    'Shared With': row.shared_with_emails?.join('; ') || '',
+    'Shared From': row.shared_from_email || '',
+    'Note': row.note || '',
+  }));
+}
+
+export function exportGridRows(rows: GridRow[], exportFormat: ExportFormat, fileName: string) {
+  const worksheet = XLSX.utils.json_to_sheet(toSheetRows(rows));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Sales');
+  XLSX.writeFile(workbook, `${fileName}.${exportFormat}`, { bookType: exportFormat });
+}
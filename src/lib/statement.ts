@@ -0,0 +1,116 @@
+import {
+  SaleEntry,
+  SpiffEntry,
+  ChargebackEntry,
+  PeriodEntries,
+  calculateCommissions,
+  getActiveShares,
+  isApproved,
+  isFunded,
+} from './supabase';
+import { CommissionPlan } from './commissionPlans';
+import { filterEntriesByPeriod, getPeriodCredits, summarizePeriod, PeriodSummary } from './periodSummary';
+import { PayPeriod } from './payPeriods';
+
+export type DealCommissions = ReturnType<typeof calculateCommissions>;
+
+export type DealSubtotals = Omit<DealCommissions, 'creditedPercentage'>;
+
+export interface StatementDeal {
+  sale: SaleEntry;
+  commissions: DealCommissions;
+  // Who the deal is split with, from this user's point of view
+  split?: string;
+}
+
+export interface CommissionStatement {
+  period: PayPeriod;
+  periodLabel: string;
+  salesperson: string;
+  fundedDeals: StatementDeal[];
+  pendingDeals: StatementDeal[];
+  dealSubtotals: DealSubtotals;
+  spiffs: SpiffEntry[];
+  chargebacks: ChargebackEntry[];
+  summary: PeriodSummary;
+  grandTotal: number;
+}
+
+export const formatMoney = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const byDate = <T extends { date: string }>(a: T, b: T) => a.date.localeCompare(b.date);
+
+function getSplitLabel(sale: SaleEntry, userId?: string) {
+  if (sale.seller_email && sale.user_id !== userId) {
+    return `From ${sale.seller_email}`;
+  }
+  const shares = getActiveShares(sale);
+  if (shares.length > 0) {
+    return `With ${shares.map(share => `${share.email}${share.status !== 'accepted' ? ' (pending)' : ''}`).join(', ')}`;
+  }
+  return undefined;
+}
+
+// Everything paid for a period: funded deals, approved spiffs, the volume bonus and
+// chargebacks. Pending deals are listed for reference but not totalled.
+export function buildStatement(
+  entries: PeriodEntries,
+  period: PayPeriod,
+  plans: CommissionPlan[],
+  options: { userId?: string; salesperson: string; periodLabel: string }
+): CommissionStatement {
+  const { userId, salesperson, periodLabel } = options;
+  const { sales, spiffs, chargebacks } = filterEntriesByPeriod(entries, period);
+  const summary = summarizePeriod(entries, period, plans, userId);
+
+  const toDeal = (sale: SaleEntry, commissions = calculateCommissions(sale, plans, userId)): StatementDeal => ({
+    sale,
+    commissions,
+    split: getSplitLabel(sale, userId),
+  });
+
+  // Funded deals are paid in the period they were credited, which may be
+  // after the one they were sold in; pending deals stay with their sale date
+  const fundedDeals = getPeriodCredits([...entries.sales].sort(byDate), period, plans, userId)
+    .map(({ sale, commissions }) => toDeal(sale, commissions));
+  const pendingDeals = sales
+    .filter(sale => sale.deal_status !== 'cancelled' && !isFunded(sale))
+    .sort(byDate)
+    .map(sale => toDeal(sale));
+
+  const dealSubtotals = fundedDeals.reduce<DealSubtotals>(
+    (totals, { commissions }) => ({
+      carCommission: totals.carCommission + commissions.carCommission,
+      accessoriesCommission: totals.accessoriesCommission + commissions.accessoriesCommission,
+      warrantyCommission: totals.warrantyCommission + commissions.warrantyCommission,
+      maintenanceCommission: totals.maintenanceCommission + commissions.maintenanceCommission,
+      tradeInCommission: totals.tradeInCommission + commissions.tradeInCommission,
+      totalCommission: totals.totalCommission + commissions.totalCommission,
+    }),
+    {
+      carCommission: 0,
+      accessoriesCommission: 0,
+      warrantyCommission: 0,
+      maintenanceCommission: 0,
+      tradeInCommission: 0,
+      totalCommission: 0,
+    }
+  );
+
+  return {
+    period,
+    periodLabel,
+    salesperson,
+    fundedDeals,
+    pendingDeals,
+    dealSubtotals,
+    spiffs: spiffs.filter(isApproved).sort(byDate),
+    chargebacks: [...chargebacks].sort(byDate),
+    summary,
+    grandTotal: summary.earnedCommissions,
+  };
+}
@@ -0,0 +1,120 @@
+import { format } from 'date-fns';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { CommissionStatement, StatementDeal, formatMoney } from './statement';
+
+const formatDay = (date: string) => format(new Date(`${date.split('T')[0]}T00:00:00`), 'MM/dd/yyyy');
+
+export function downloadStatementPdf(statement: CommissionStatement) {
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const { dealSubtotals, summary } = statement;
+  const tableStyles = {
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [0, 0, 0] as [number, number, number] },
+    footStyles: { fillColor: [243, 244, 246] as [number, number, number], textColor: 0 },
+  };
+  let y = 15;
+
+  const nextY = () => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  const sectionTitle = (title: string) => {
+    if (y > doc.internal.pageSize.getHeight() - 30) {
+      doc.addPage();
+      y = 15;
+    }
+    doc.text(title, 14, y);
+  };
+
+  doc.setFontSize(16);
+  doc.text('Daly City Mitsubishi - Commission Statement', 14, y);
+  doc.setFontSize(10);
+  doc.text(`${statement.salesperson} - ${statement.periodLabel}`, 14, y + 7);
+  y += 15;
+
+  const dealRows = (deals: StatementDeal[]) => deals.map(({ sale, commissions, split }) => [
+    formatDay(sale.date),
+    sale.stock_number,
+    sale.customer_name,
+    sale.vehicle_model || '',
+    sale.sale_type,
+    split ? `${split} (${commissions.creditedPercentage}%)` : '100%',
+    formatMoney(commissions.carCommission),
+    formatMoney(commissions.accessoriesCommission),
+    formatMoney(commissions.warrantyCommission),
+    formatMoney(commissions.maintenanceCommission),
+    formatMoney(commissions.tradeInCommission),
+    formatMoney(commissions.totalCommission),
+  ]);
+  const dealHead = [['Date', 'Stock', 'Customer', 'Model', 'Type', 'Split', 'Car', 'Accessories', 'Warranty', 'Maintenance', 'Trade-In', 'Total']];
+
+  sectionTitle('Funded Deals');
+  autoTable(doc, {
+    ...tableStyles,
+    startY: y + 3,
+    head: dealHead,
+    body: dealRows(statement.fundedDeals),
+    foot: [[
+      'Subtotal', '', '', '', '', '',
+      formatMoney(dealSubtotals.carCommission),
+      formatMoney(dealSubtotals.accessoriesCommission),
+      formatMoney(dealSubtotals.warrantyCommission),
+      formatMoney(dealSubtotals.maintenanceCommission),
+      formatMoney(dealSubtotals.tradeInCommission),
+      formatMoney(dealSubtotals.totalCommission),
+    ]],
+  });
+  y = nextY();
+
+  sectionTitle('Spiffs');
+  autoTable(doc, {
+    ...tableStyles,
+    startY: y + 3,
+    head: [['Date', 'Note', 'Amount']],
+    body: statement.spiffs.map(spiff => [formatDay(spiff.date), spiff.note || '', formatMoney(Number(spiff.amount))]),
+    foot: [['Subtotal', '', formatMoney(summary.spiffTotal)]],
+  });
+  y = nextY();
+
+  if (statement.chargebacks.length > 0) {
+    sectionTitle('Chargebacks');
+    autoTable(doc, {
+      ...tableStyles,
+      startY: y + 3,
+      head: [['Date', 'Stock', 'Customer', 'Reason', 'Amount']],
+      body: statement.chargebacks.map(chargeback => [
+        formatDay(chargeback.date),
+        chargeback.sales?.stock_number || '',
+        chargeback.sales?.customer_name || '',
+        chargeback.reason || '',
+        formatMoney(Number(chargeback.amount)),
+      ]),
+      foot: [['Subtotal', '', '', '', formatMoney(summary.chargebackTotal)]],
+    });
+    y = nextY();
+  }
+
+  autoTable(doc, {
+    ...tableStyles,
+    startY: y,
+    body: [
+      ['Funded deals', formatMoney(summary.dealCommissions)],
+      ['Spiffs', formatMoney(summary.spiffTotal)],
+      [`Volume bonus (${summary.volumeBonus.units} units)`, formatMoney(summary.volumeBonus.bonus)],
+      ['Chargebacks', formatMoney(summary.chargebackTotal)],
+    ],
+    foot: [['Grand Total', formatMoney(statement.grandTotal)]],
+    tableWidth: 100,
+  });
+
+  if (statement.pendingDeals.length > 0) {
+    y = nextY();
+    sectionTitle('Pending Deals (not included in total)');
+    autoTable(doc, {
+      ...tableStyles,
+      startY: y + 3,
+      head: dealHead,
+      body: dealRows(statement.pendingDeals),
+    });
+  }
+
+  doc.save(`commission-statement-${format(statement.period.start, 'yyyy-MM-dd')}.pdf`);
+}
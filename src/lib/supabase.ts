@@ -1,35 +1,178 @@
 import { createClient } from '@supabase/supabase-js';
+import { subDays } from 'date-fns';
+import { CommissionPlan, getCarTierAmount, getPlanForDate, getVolumeBonusTiers } from './commissionPlans';
+import { DEFAULT_PAY_PERIOD, PayPeriodDefinition } from './payPeriods';
+import { DEFAULT_PAYROLL_LAYOUT, PayrollEmployee, PayrollLayout } from './payrollLayout';
+import { IncentiveProgram } from './incentives';
+import { Vehicle, normalizeStockNumber } from './inventory';
+import { Customer, CustomerContact, CustomerHistory } from './customers';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+export type DealStatus = 'pending_delivery' | 'delivered' | 'funded' | 'cancelled';
+
+export const DEAL_STATUS_LABELS: Record<DealStatus, string> = {
+  pending_delivery: 'Pending Delivery',
+  delivered: 'Delivered',
+  funded: 'Funded',
+  cancelled: 'Cancelled',
+};
+
 export interface SaleEntry {
   id: string;
   user_id: string;
   stock_number: string;
   customer_name: string;
+  customer_id?: string | null;
   sale_type: 'New' | 'Used' | 'Trade-In';
   sale_price: number;
+  vehicle_model?: string | null;
+  vin?: string | null;
+  vehicle_year?: number | null;
+  vehicle_make?: string | null;
   accessories_price?: number;
   warranty_price?: number;
   warranty_cost?: number;
   maintenance_price?: number;
   maintenance_cost?: number;
-  shared_with_email?: string;
-  shared_with_id?: string;
-  shared_status?: 'pending' | 'accepted' | 'rejected';
+  trade_in_commission?: number | null;
+  sale_shares?: SaleShare[];
+  seller_email?: string;
+  unwound_at?: string | null;
+  unwind_reason?: string | null;
+  deal_status?: DealStatus;
+  delivered_at?: string | null;
+  funded_at?: string | null;
+  cancelled_at?: string | null;
+  deleted_at?: string | null;
   date: string;
 }
 
+export type ShareStatus = 'pending' | 'accepted' | 'rejected' | 'countered' | 'revoked';
+
+export const SHARE_STATUS_LABELS: Record<ShareStatus, string> = {
+  pending: 'Awaiting answer',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  countered: 'Countered',
+  revoked: 'Revoked',
+};
+
+// One participant's part of a sale split among several salespeople
+export interface SaleShare {
+  id: string;
+  sale_id: string;
+  user_id: string;
+  email: string;
+  percentage: number;
+  status: ShareStatus;
+  // The split a participant asked for instead, while the share is countered
+  counter_percentage?: number | null;
+  response_note?: string | null;
+  offered_at?: string;
+  responded_at?: string | null;
+  created_at?: string;
+}
+
+export type ShareEventAction =
+  | 'offered'
+  | 'resent'
+  | 'retargeted'
+  | 'accepted'
+  | 'rejected'
+  | 'countered'
+  | 'counter_accepted'
+  | 'counter_declined'
+  | 'revoked';
+
+// A step in the negotiation over a share, oldest first
+export interface ShareEvent {
+  id: number;
+  sale_id: string;
+  share_id: string;
+  action: ShareEventAction;
+  actor_id?: string | null;
+  actor_email?: string | null;
+  email: string;
+  previous_email?: string | null;
+  percentage?: number | null;
+  note?: string | null;
+  created_at: string;
+}
+
+// The parts of a sale embedded in its spiffs and chargebacks
+export type SaleSummary = Pick<SaleEntry, 'stock_number' | 'customer_name' | 'customer_id' | 'sale_type' | 'vehicle_year' | 'vehicle_make' | 'vehicle_model' | 'vin'>;
+
+export type SpiffStatus = 'submitted' | 'approved' | 'rejected';
+
+export const SPIFF_STATUS_LABELS: Record<SpiffStatus, string> = {
+  submitted: 'Pending Approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
 export interface SpiffEntry {
   id: string;
   user_id: string;
   amount: number;
   note?: string;
   image_url?: string;
+  status?: SpiffStatus;
+  rejection_reason?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  sale_id?: string | null;
+  incentive_program_id?: string | null;
+  deleted_at?: string | null;
+  date: string;
+  sales?: SaleSummary | null;
+}
+
+export interface ChargebackEntry {
+  id: string;
+  sale_id: string;
+  user_id: string;
+  amount: number;
+  units: number;
+  reason?: string | null;
+  deleted_at?: string | null;
   date: string;
+  sales?: SaleSummary;
+}
+
+export interface PeriodEntries {
+  sales: SaleEntry[];
+  spiffs: SpiffEntry[];
+  chargebacks: ChargebackEntry[];
+}
+
+export type UserRole = 'salesperson' | 'manager';
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  role: UserRole;
+  manager_id?: string | null;
+  employee_number?: string | null;
+}
+
+export type AuditTable = 'sales' | 'spiffs' | 'chargebacks';
+
+export interface AuditEntry {
+  id: number;
+  table_name: AuditTable | 'sale_shares';
+  record_id: string;
+  owner_id?: string | null;
+  // The sale a share belongs to
+  parent_id?: string | null;
+  action: 'insert' | 'update' | 'delete';
+  changed_by?: string | null;
+  changed_by_email?: string | null;
+  changed_at: string;
+  changes: Record<string, { old: unknown; new: unknown }>;
 }
 
 export interface SharedSaleNotification {
@@ -65,89 +208,449 @@ export async function getUserIdFromEmail(email: string): Promise<string | null>
   }
 }
 
-export function calculateCommissions(sale: SaleEntry) {
-  let carCommission = 0;
+export async function getUserEmailFromId(userId: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_user_email_from_id', {
+      user_uuid: userId
+    });
+
+    if (error) throw error;
+    return data || null;
+  } catch (error) {
+    console.error('Error getting email from user ID:', error);
+    return null;
+  }
+}
+
+// Sales shared with a user belong to someone else; attach the seller's email
+// so the recipient can tell whose deal it is.
+export async function withSellerEmails(sales: SaleEntry[], userId: string): Promise<SaleEntry[]> {
+  const sellerIds = [...new Set(sales.filter(sale => sale.user_id !== userId).map(sale => sale.user_id))];
+  const sellerEmails = new Map<string, string | null>(
+    await Promise.all(sellerIds.map(async id => [id, await getUserEmailFromId(id)] as const))
+  );
+
+  return sales.map(sale => {
+    const sellerEmail = sellerEmails.get(sale.user_id);
+    return sellerEmail ? { ...sale, seller_email: sellerEmail } : sale;
+  });
+}
+
+// Sales any of the given users accepted a share of
+async function getAcceptedShareSaleIds(userIds: string[]): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('sale_shares')
+    .select('sale_id')
+    .in('user_id', userIds)
+    .eq('status', 'accepted');
+
+  if (error) throw error;
+
+  return [...new Set((data || []).map(share => share.sale_id as string))];
+}
+
+const withSharedSales = (ownerFilter: string, saleIds: string[]) =>
+  saleIds.length > 0 ? `${ownerFilter},id.in.(${saleIds.join(',')})` : ownerFilter;
+
+// Sales with a share accepted since a date, which moves commission from the
+// seller to the participant then rather than when the deal was sold
+async function getSharesAcceptedSinceSaleIds(startDate: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('sale_shares')
+    .select('sale_id')
+    .eq('status', 'accepted')
+    .gte('responded_at', startDate);
+
+  if (error) throw error;
+
+  return [...new Set((data || []).map(share => share.sale_id as string))];
+}
+
+// Sales made on or after a date, plus earlier ones funded or shared after it,
+// which are credited when that happened rather than on their sale date
+const soldOrCreditedSince = (startDate: string, saleIds: string[]) =>
+  withSharedSales(`date.gte.${startDate},funded_at.gte.${startDate}`, saleIds);
+
+// A user's own sales plus the shares they accepted, sold or credited in the range
+export async function getSales(userId: string, startDate: string, endDate: string): Promise<SaleEntry[]> {
+  try {
+    const [sharedSaleIds, creditedSaleIds] = await Promise.all([
+      getAcceptedShareSaleIds([userId]),
+      getSharesAcceptedSinceSaleIds(startDate),
+    ]);
+    const { data, error } = await supabase
+      .from('sales')
+      .select('*, sale_shares (*)')
+      .or(withSharedSales(`user_id.eq.${userId}`, sharedSaleIds))
+      .or(soldOrCreditedSince(startDate, creditedSaleIds))
+      .is('deleted_at', null)
+      .lte('date', endDate)
+      .order('date', { ascending: false });
+
+    if (error) throw error;
+
+    return await withSellerEmails(data || [], userId);
+  } catch (error) {
+    console.error('Error fetching sales:', error);
+    throw error;
+  }
+}
+
+export async function getSpiffs(userId: string, startDate: string, endDate: string): Promise<SpiffEntry[]> {
+  try {
+    const { data, error } = await supabase
+      .from('spiffs')
+      .select('*, sales (stock_number, customer_name, customer_id, sale_type, vehicle_year, vehicle_make, vehicle_model, vin)')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date', { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching spiffs:', error);
+    throw error;
+  }
+}
+
+export async function getChargebacks(userId: string, startDate: string, endDate: string): Promise<ChargebackEntry[]> {
+  try {
+    const { data, error } = await supabase
+      .from('chargebacks')
+      .select('*, sales (stock_number, customer_name, customer_id, sale_type, vehicle_year, vehicle_make, vehicle_model, vin)')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date', { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching chargebacks:', error);
+    throw error;
+  }
+}
+
+export async function getPeriodEntries(userId: string, startDate: string, endDate: string): Promise<PeriodEntries> {
+  const [sales, spiffs, chargebacks] = await Promise.all([
+    getSales(userId, startDate, endDate),
+    getSpiffs(userId, startDate, endDate),
+    getChargebacks(userId, startDate, endDate),
+  ]);
+
+  return { sales, spiffs, chargebacks };
+}
+
+export async function getUserProfile(userId: string): Promise<UserProfile | null> {
+  try {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, email, role, manager_id, employee_number')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching user profile:', error);
+    throw error;
+  }
+}
+
+export async function getTeamMembers(managerId: string): Promise<UserProfile[]> {
+  try {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, email, role, manager_id, employee_number')
+      .eq('manager_id', managerId)
+      .order('email');
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching team members:', error);
+    throw error;
+  }
+}
+
+// Entries for a whole team; row level security limits managers to their own team
+export async function getTeamEntries(memberIds: string[], startDate: string, endDate: string): Promise<PeriodEntries> {
+  try {
+    if (memberIds.length === 0) return { sales: [], spiffs: [], chargebacks: [] };
+
+    const [sharedSaleIds, creditedSaleIds] = await Promise.all([
+      getAcceptedShareSaleIds(memberIds),
+      getSharesAcceptedSinceSaleIds(startDate),
+    ]);
+    const [sales, spiffs, chargebacks] = await Promise.all([
+      supabase
+        .from('sales')
+        .select('*, sale_shares (*)')
+        .or(withSharedSales(`user_id.in.(${memberIds.join(',')})`, sharedSaleIds))
+        .or(soldOrCreditedSince(startDate, creditedSaleIds))
+        .is('deleted_at', null)
+        .lte('date', endDate)
+        .order('date', { ascending: false }),
+      supabase
+        .from('spiffs')
+        .select('*, sales (stock_number, customer_name, customer_id, sale_type, vehicle_year, vehicle_make, vehicle_model, vin)')
+        .in('user_id', memberIds)
+        .is('deleted_at', null)
+        .gte('date', startDate)
+        .lte('date', endDate)
+        .order('date', { ascending: false }),
+      supabase
+        .from('chargebacks')
+        .select('*, sales (stock_number, customer_name, customer_id, sale_type, vehicle_year, vehicle_make, vehicle_model, vin)')
+        .in('user_id', memberIds)
+        .is('deleted_at', null)
+        .gte('date', startDate)
+        .lte('date', endDate)
+        .order('date', { ascending: false }),
+    ]);
+
+    if (sales.error) throw sales.error;
+    if (spiffs.error) throw spiffs.error;
+    if (chargebacks.error) throw chargebacks.error;
+
+    return {
+      sales: sales.data || [],
+      spiffs: spiffs.data || [],
+      chargebacks: chargebacks.data || [],
+    };
+  } catch (error) {
+    console.error('Error fetching team entries:', error);
+    throw error;
+  }
+}
+
+// Shares still offered or taken up; a rejected or revoked share goes back to
+// the seller
+export function isActiveShare(share: SaleShare) {
+  return share.status !== 'rejected' && share.status !== 'revoked';
+}
+
+export function getActiveShares(sale: SaleEntry) {
+  return (sale.sale_shares || []).filter(isActiveShare);
+}
+
+export function getUserShare(sale: SaleEntry, userId?: string) {
+  return sale.sale_shares?.find(share => share.user_id === userId);
+}
+
+const sumPercentages = (shares: SaleShare[]) =>
+  shares.reduce((sum, share) => sum + Number(share.percentage), 0);
+
+// The seller's side of the split once every open share has been answered
+export function getSellerSplit(sale: SaleEntry) {
+  return Math.round((100 - sumPercentages(getActiveShares(sale))) * 100) / 100;
+}
+
+// Share of a sale's commission credited to a user. A participant's side only
+// moves over from the seller once they accept, so an open share is still
+// credited to the seller and the whole deal is always accounted for.
+export function getCreditedPercentage(sale: SaleEntry, userId?: string) {
+  const share = userId && userId !== sale.user_id ? getUserShare(sale, userId) : undefined;
+  if (share) {
+    return share.status === 'accepted' ? Number(share.percentage) : 0;
+  }
+
+  const accepted = (sale.sale_shares || []).filter(saleShare => saleShare.status === 'accepted');
+  return Math.round((100 - sumPercentages(accepted)) * 100) / 100;
+}
+
+// `percentage` credits a given part of the deal instead of the user's split
+export function calculateCommissions(
+  sale: SaleEntry,
+  plans: CommissionPlan[] = [],
+  userId?: string,
+  percentage?: number
+) {
+  const { rules } = getPlanForDate(plans, sale.date);
   let accessoriesCommission = 0;
   let warrantyCommission = 0;
   let maintenanceCommission = 0;
 
   // Car commission based on sale price
-  if (sale.sale_price < 10000) {
-    carCommission = 200;
-  } else if (sale.sale_price < 20000) {
-    carCommission = 300;
-  } else if (sale.sale_price < 30000) {
-    carCommission = 400;
-  } else {
-    carCommission = 500;
-  }
+  const carCommission = getCarTierAmount(rules, sale.sale_price);
 
   // Accessories commission
   if (sale.accessories_price) {
-    const threshold = sale.sale_type === 'New' ? 988 : 488;
+    const threshold = sale.sale_type === 'New'
+      ? rules.accessories.new_threshold
+      : rules.accessories.used_threshold;
     const eligibleAmount = sale.accessories_price - threshold;
-    if (eligibleAmount > 800) {
-      accessoriesCommission = 100;
+    if (eligibleAmount > rules.accessories.min_excess) {
+      accessoriesCommission = rules.accessories.amount;
     }
   }
 
   // Warranty commission
-  if (sale.warranty_price && sale.warranty_cost) {
+  if (sale.warranty_price && sale.warranty_cost && rules.warranty.profit_step > 0) {
     const profit = sale.warranty_price - sale.warranty_cost;
-    warrantyCommission = Math.floor(profit / 1000) * 100;
+    warrantyCommission = Math.floor(profit / rules.warranty.profit_step) * rules.warranty.amount_per_step;
   }
 
   // Maintenance commission
-  if (sale.maintenance_price && sale.maintenance_price > 800) {
-    maintenanceCommission = 100;
+  if (sale.maintenance_price && sale.maintenance_price > rules.maintenance.min_price) {
+    maintenanceCommission = rules.maintenance.amount;
   }
 
-  const totalCommission = carCommission + accessoriesCommission + warrantyCommission + maintenanceCommission;
+  // Trade-in commission is negotiated per deal with the sales manager
+  const tradeInCommission = Number(sale.trade_in_commission) || 0;
+
+  // Shared sales only pay the user's side of the split; cancelled deals pay nothing
+  const creditedPercentage = percentage ?? (sale.deal_status === 'cancelled' ? 0 : getCreditedPercentage(sale, userId));
+  const credit = (amount: number) => Math.round(amount * creditedPercentage) / 100;
+
+  const totalCommission =
+    credit(carCommission) +
+    credit(accessoriesCommission) +
+    credit(warrantyCommission) +
+    credit(maintenanceCommission) +
+    credit(tradeInCommission);
 
   return {
-    carCommission,
-    accessoriesCommission,
-    warrantyCommission,
-    maintenanceCommission,
+    carCommission: credit(carCommission),
+    accessoriesCommission: credit(accessoriesCommission),
+    warrantyCommission: credit(warrantyCommission),
+    maintenanceCommission: credit(maintenanceCommission),
+    tradeInCommission: credit(tradeInCommission),
     totalCommission,
+    creditedPercentage,
+  };
+}
+
+// Shared deals count toward volume bonuses by each salesperson's split, so
+// every deal adds up to one unit across its participants
+export function getUnitCredit(sale: SaleEntry, userId?: string) {
+  if (sale.deal_status === 'cancelled') return 0;
+  return getCreditedPercentage(sale, userId) / 100;
+}
+
+export function countUnits(sales: SaleEntry[], userId?: string, chargebacks: ChargebackEntry[] = []) {
+  const units = sales.reduce((sum, sale) => sum + getUnitCredit(sale, userId), 0) +
+    chargebacks.reduce((sum, chargeback) => sum + Number(chargeback.units), 0);
+  return Math.round(units * 10000) / 10000;
+}
+
+export function calculateVolumeBonus(
+  units: number,
+  plans: CommissionPlan[] = [],
+  monthEnd: string = new Date().toISOString().split('T')[0]
+) {
+  const { rules } = getPlanForDate(plans, monthEnd);
+  const { earnedTier, nextTier } = getVolumeBonusTiers(rules, units);
+
+  return {
+    units,
+    bonus: earnedTier?.amount || 0,
+    nextTier,
+    unitsToNextTier: nextTier ? Math.round((nextTier.min_units - units) * 10000) / 10000 : 0,
   };
 }
 
-export async function shareSale(saleId: string, recipientEmail: string) {
+export async function getCommissionPlans(): Promise<CommissionPlan[]> {
   try {
-    // First, get the recipient's user ID
-    const { data: recipientData, error: recipientError } = await supabase
-      .from('users')
-      .select('id')
-      .eq('email', recipientEmail)
-      .single();
+    const { data, error } = await supabase
+      .from('commission_plans')
+      .select('*')
+      .order('effective_from', { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching commission plans:', error);
+    throw error;
+  }
+}
+
+export async function publishCommissionPlan(
+  plan: Pick<CommissionPlan, 'name' | 'effective_from' | 'rules'>,
+  userId: string
+) {
+  try {
+    const { error } = await supabase
+      .from('commission_plans')
+      .insert({ ...plan, created_by: userId });
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error publishing commission plan:', error);
+    throw error;
+  }
+}
+
+export type ShareParticipant = Pick<SaleShare, 'user_id' | 'email' | 'percentage'> & {
+  // The share being edited, so a changed email re-targets it
+  share_id?: string;
+};
+
+// Brings a sale's shares in line with the participants given. Changed,
+// re-targeted, rejected and revoked shares are offered again and anyone left
+// out is revoked; accepted shares can't be changed. Shrinking shares go first so the running total never leaves
+// the seller nothing.
+export async function saveSaleShares(saleId: string, participants: ShareParticipant[]) {
+  try {
+    const shares = await getSaleShares(saleId);
+    const findShare = (participant: ShareParticipant) =>
+      shares.find(share => share.id === participant.share_id) ||
+      shares.find(share => share.user_id === participant.user_id);
+    const kept = new Set(participants.map(findShare).filter(Boolean).map(share => share!.id));
+
+    const revoked = shares.filter(share => isActiveShare(share) && !kept.has(share.id));
+    const changed = participants
+      .map(participant => ({ participant, share: findShare(participant) }))
+      .filter(({ participant, share }) =>
+        !share ||
+        !isActiveShare(share) ||
+        share.user_id !== participant.user_id ||
+        Number(share.percentage) !== participant.percentage
+      );
 
-    if (recipientError || !recipientData) {
-      throw new Error('Recipient not found');
+    // Accepted shares are settled; only unwinding the deal takes them back
+    const settled = [...revoked, ...changed.map(({ share }) => share)]
+      .find(share => share?.status === 'accepted');
+    if (settled) {
+      throw new Error(`${settled.email} accepted their share; unwind the deal to take it back`);
     }
 
-    // Update the sale with shared information
-    const { error: saleError } = await supabase
-      .from('sales')
-      .update({
-        shared_with_email: recipientEmail,
-        shared_with_id: recipientData.id,
-        shared_status: 'pending'
-      })
-      .eq('id', saleId);
+    changed.sort((a, b) =>
+      (a.participant.percentage - Number(a.share?.percentage ?? 0)) -
+      (b.participant.percentage - Number(b.share?.percentage ?? 0))
+    );
 
-    if (saleError) throw saleError;
+    for (const share of revoked) {
+      await revokeShare(share.id);
+    }
 
-    // Create notification
-    const { error: notificationError } = await supabase
-      .from('notifications')
-      .insert({
-        user_id: recipientData.id,
-        sale_id: saleId,
-        type: 'shared_sale_pending'
-      });
+    for (const { participant, share } of changed) {
+      const { error } = share
+        ? await supabase
+          .from('sale_shares')
+          .update({
+            user_id: participant.user_id,
+            email: participant.email,
+            percentage: participant.percentage,
+            status: 'pending',
+          })
+          .eq('id', share.id)
+        : await supabase
+          .from('sale_shares')
+          .insert({ sale_id: saleId, user_id: participant.user_id, email: participant.email, percentage: participant.percentage });
 
-    if (notificationError) throw notificationError;
+      if (error) throw shareError(error, participant.email);
+    }
 
     return { success: true };
   } catch (error) {
@@ -156,44 +659,739 @@ export async function shareSale(saleId: string, recipientEmail: string) {
   }
 }
 
-export async function respondToSharedSale(saleId: string, response: 'accepted' | 'rejected') {
+// A salesperson can only have one share of a sale
+function shareError(error: { code?: string; message: string }, email: string) {
+  return error.code === '23505' ? new Error(`${email} already has a share of this sale`) : error;
+}
+
+export async function getSaleShares(saleId: string): Promise<SaleShare[]> {
   try {
-    const { error: saleError } = await supabase
-      .from('sales')
-      .update({ shared_status: response })
-      .eq('id', saleId);
+    const { data, error } = await supabase
+      .from('sale_shares')
+      .select('*')
+      .eq('sale_id', saleId)
+      .order('created_at');
 
-    if (saleError) throw saleError;
+    if (error) throw error;
 
-    return { success: true };
+    return data || [];
   } catch (error) {
-    console.error('Error responding to shared sale:', error);
+    console.error('Error fetching shares:', error);
     throw error;
   }
 }
 
-export async function getSharedSaleNotifications(userId: string) {
+export async function getShareEvents(saleId: string): Promise<ShareEvent[]> {
   try {
     const { data, error } = await supabase
-      .from('notifications')
-      .select(`
-        *,
-        sales (
-          id,
-          stock_number,
-          customer_name,
-          sale_type,
-          sale_price,
-          date
-        )
-      `)
-      .eq('user_id', userId)
-      .eq('read', false)
-      .order('created_at', { ascending: false });
+      .from('share_events')
+      .select('*')
+      .eq('sale_id', saleId)
+      .order('created_at')
+      .order('id');
 
     if (error) throw error;
 
     return data || [];
+  } catch (error) {
+    console.error('Error fetching share history:', error);
+    throw error;
+  }
+}
+
+export async function respondToShare(shareId: string, response: 'accepted' | 'rejected') {
+  try {
+    const { error } = await supabase
+      .from('sale_shares')
+      .update({ status: response, response_note: null })
+      .eq('id', shareId);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error responding to shared sale:', error);
+    throw error;
+  }
+}
+
+// The participant asks for a different split instead of answering yes or no
+export async function counterShare(shareId: string, percentage: number, note?: string) {
+  try {
+    const { error } = await supabase
+      .from('sale_shares')
+      .update({ status: 'countered', counter_percentage: percentage, response_note: note?.trim() || null })
+      .eq('id', shareId);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error countering shared sale:', error);
+    throw error;
+  }
+}
+
+// Accepting takes the countered split; declining offers the original again
+export async function respondToCounter(shareId: string, response: 'accepted' | 'declined') {
+  try {
+    const { error } = await supabase
+      .from('sale_shares')
+      .update({ status: response === 'accepted' ? 'accepted' : 'pending' })
+      .eq('id', shareId);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error responding to counter:', error);
+    throw error;
+  }
+}
+
+// Offers the share again, e.g. after it was rejected or went unanswered
+export async function resendShare(shareId: string) {
+  try {
+    const { error } = await supabase
+      .from('sale_shares')
+      .update({ status: 'pending', offered_at: new Date().toISOString() })
+      .eq('id', shareId);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error resending share:', error);
+    throw error;
+  }
+}
+
+// Takes back an offer that hasn't been accepted
+export async function revokeShare(shareId: string) {
+  try {
+    const { error } = await supabase
+      .from('sale_shares')
+      .update({ status: 'revoked' })
+      .eq('id', shareId);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error revoking share:', error);
+    throw error;
+  }
+}
+
+// Offers a share that hasn't been accepted to another salesperson instead
+export async function retargetShare(shareId: string, email: string) {
+  try {
+    const userId = await getUserIdFromEmail(email);
+    if (!userId) {
+      throw new Error(`No salesperson found with the email ${email}`);
+    }
+
+    const { error } = await supabase
+      .from('sale_shares')
+      .update({ user_id: userId, email })
+      .eq('id', shareId);
+
+    if (error) throw shareError(error, email);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error re-targeting share:', error);
+    throw error;
+  }
+}
+
+export async function getPayPeriodDefinition(): Promise<PayPeriodDefinition> {
+  try {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .select('value')
+      .eq('key', 'pay_period')
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data?.value || DEFAULT_PAY_PERIOD;
+  } catch (error) {
+    console.error('Error fetching pay period:', error);
+    throw error;
+  }
+}
+
+export async function updatePayPeriodDefinition(definition: PayPeriodDefinition, userId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .update({ value: definition, updated_by: userId })
+      .eq('key', 'pay_period')
+      .select('key')
+      .maybeSingle();
+
+    if (error) throw error;
+    // Row level security filters out the update for anyone but a manager
+    if (!data) throw new Error('Only managers can change the pay period');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating pay period:', error);
+    throw error;
+  }
+}
+
+export async function getPayrollLayout(): Promise<PayrollLayout> {
+  try {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .select('value')
+      .eq('key', 'payroll_layout')
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return { ...DEFAULT_PAYROLL_LAYOUT, ...data?.value };
+  } catch (error) {
+    console.error('Error fetching payroll layout:', error);
+    throw error;
+  }
+}
+
+export async function updatePayrollLayout(layout: PayrollLayout, userId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .update({ value: layout, updated_by: userId })
+      .eq('key', 'payroll_layout')
+      .select('key')
+      .maybeSingle();
+
+    if (error) throw error;
+    // Row level security filters out the update for anyone but a manager
+    if (!data) throw new Error('Only managers can change the payroll layout');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating payroll layout:', error);
+    throw error;
+  }
+}
+
+// Every salesperson's entries, for the payroll export
+export async function getPayrollEntries(
+  startDate: string,
+  endDate: string
+): Promise<{ employees: PayrollEmployee[]; entries: PeriodEntries }> {
+  try {
+    const { data, error } = await supabase.rpc('get_payroll_entries', {
+      start_date: startDate,
+      end_date: endDate,
+    });
+
+    if (error) throw error;
+
+    const { employees, ...entries } = data;
+    return { employees, entries };
+  } catch (error) {
+    console.error('Error fetching payroll entries:', error);
+    throw error;
+  }
+}
+
+// Deals still waiting on delivery or lender funding aren't on the check yet
+export function isFunded(sale: SaleEntry) {
+  return !sale.deal_status || sale.deal_status === 'funded';
+}
+
+export async function getIncentivePrograms(): Promise<IncentiveProgram[]> {
+  try {
+    const { data, error } = await supabase
+      .from('incentive_programs')
+      .select('*')
+      .order('start_date', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(program => ({ ...program, amount: Number(program.amount) }));
+  } catch (error) {
+    console.error('Error fetching incentive programs:', error);
+    throw error;
+  }
+}
+
+export async function saveIncentiveProgram(program: Omit<IncentiveProgram, 'id'> & { id?: string }, userId: string) {
+  try {
+    const { id } = program;
+    const fields = {
+      name: program.name,
+      amount: program.amount,
+      start_date: program.start_date,
+      end_date: program.end_date,
+      sale_types: program.sale_types,
+      model: program.model,
+      min_product: program.min_product,
+      min_product_price: program.min_product_price,
+      active: program.active,
+    };
+    const { error } = id
+      ? await supabase.from('incentive_programs').update(fields).eq('id', id)
+      : await supabase.from('incentive_programs').insert([{ ...fields, created_by: userId }]);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error saving incentive program:', error);
+    throw error;
+  }
+}
+
+// Programs a sale already has a spiff for, whatever that spiff's status
+export async function getClaimedProgramIds(saleId: string): Promise<Set<string>> {
+  try {
+    const { data, error } = await supabase
+      .from('spiffs')
+      .select('incentive_program_id')
+      .eq('sale_id', saleId)
+      .not('incentive_program_id', 'is', null);
+
+    if (error) throw error;
+
+    return new Set((data || []).map(row => row.incentive_program_id));
+  } catch (error) {
+    console.error('Error fetching claimed incentives:', error);
+    throw error;
+  }
+}
+
+// Spiffs for the programs a saved sale qualified for. They go through the same
+// approval as hand-entered spiffs; a program already claimed for the sale is skipped.
+export async function createIncentiveSpiffs(claims: { sale: SaleEntry; program: IncentiveProgram }[]) {
+  try {
+    if (claims.length === 0) return { success: true, count: 0 };
+
+    const { data, error } = await supabase
+      .from('spiffs')
+      .upsert(
+        claims.map(({ sale, program }) => ({
+          user_id: sale.user_id,
+          amount: program.amount,
+          note: program.name,
+          date: sale.date.split('T')[0],
+          sale_id: sale.id,
+          incentive_program_id: program.id,
+        })),
+        { onConflict: 'sale_id,incentive_program_id', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (error) throw error;
+
+    // Claims that were already on file are skipped and don't come back
+    return { success: true, count: data?.length || 0 };
+  } catch (error) {
+    console.error('Error creating incentive spiffs:', error);
+    throw error;
+  }
+}
+
+export async function getVehicles(): Promise<Vehicle[]> {
+  try {
+    const { data, error } = await supabase
+      .from('vehicle_inventory')
+      .select('*')
+      .order('received_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(vehicle => ({ ...vehicle, cost: Number(vehicle.cost) }));
+  } catch (error) {
+    console.error('Error fetching vehicles:', error);
+    throw error;
+  }
+}
+
+export async function lookupVehicle(stockNumber: string): Promise<Vehicle | null> {
+  try {
+    const { data, error } = await supabase
+      .from('vehicle_inventory')
+      .select('*')
+      .eq('stock_number', normalizeStockNumber(stockNumber))
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data ? { ...data, cost: Number(data.cost) } : null;
+  } catch (error) {
+    console.error('Error looking up vehicle:', error);
+    throw error;
+  }
+}
+
+export async function saveVehicle(vehicle: Omit<Vehicle, 'id'> & { id?: string }, userId: string) {
+  try {
+    const { id } = vehicle;
+    const row = {
+      stock_number: normalizeStockNumber(vehicle.stock_number),
+      vin: vehicle.vin,
+      year: vehicle.year,
+      make: vehicle.make,
+      model: vehicle.model,
+      trim: vehicle.trim,
+      condition: vehicle.condition,
+      cost: vehicle.cost,
+      received_at: vehicle.received_at,
+    };
+    const { error } = id
+      ? await supabase.from('vehicles').update(row).eq('id', id)
+      : await supabase.from('vehicles').insert([{ ...row, created_by: userId }]);
+
+    if (error) {
+      if (error.code === '23505') throw new Error(`Stock #${row.stock_number} is already in inventory`);
+      throw error;
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error saving vehicle:', error);
+    throw error;
+  }
+}
+
+export async function getCustomers(): Promise<Customer[]> {
+  try {
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching customers:', error);
+    throw error;
+  }
+}
+
+export async function createCustomer(name: string, contact: CustomerContact, userId: string): Promise<Customer> {
+  try {
+    const { data, error } = await supabase
+      .from('customers')
+      .insert([{
+        name: name.trim(),
+        phone: contact.phone?.trim() || null,
+        email: contact.email?.trim() || null,
+        address: contact.address?.trim() || null,
+        created_by: userId,
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return data;
+  } catch (error) {
+    console.error('Error creating customer:', error);
+    throw error;
+  }
+}
+
+export async function updateCustomer(customer: Customer) {
+  try {
+    const fields = {
+      name: customer.name,
+      phone: customer.phone,
+      email: customer.email,
+      address: customer.address,
+    };
+    const { error } = await supabase.from('customers').update(fields).eq('id', customer.id);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating customer:', error);
+    throw error;
+  }
+}
+
+// Every salesperson's deals with the customer, not just the caller's
+export async function getCustomerHistory(customerId: string): Promise<CustomerHistory> {
+  try {
+    const { data, error } = await supabase.rpc('get_customer_history', { customer: customerId });
+
+    if (error) throw error;
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching customer history:', error);
+    throw error;
+  }
+}
+
+// The grid hands sales and spiffs to the same edit handler; only spiffs have an amount
+export function isSpiffEntry(item: SaleEntry | SpiffEntry): item is SpiffEntry {
+  return 'amount' in item;
+}
+
+// Spiffs only count toward earnings once a manager approves them
+export function isApproved(spiff: SpiffEntry) {
+  return !spiff.status || spiff.status === 'approved';
+}
+
+// Spiffs from the team still waiting on a decision, oldest first
+export async function getSubmittedSpiffs(memberIds: string[]): Promise<SpiffEntry[]> {
+  try {
+    if (memberIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('spiffs')
+      .select('*')
+      .in('user_id', memberIds)
+      .eq('status', 'submitted')
+      .is('deleted_at', null)
+      .order('date', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching submitted spiffs:', error);
+    throw error;
+  }
+}
+
+export async function reviewSpiff(spiffId: string, status: 'approved' | 'rejected', rejectionReason?: string) {
+  try {
+    const { error } = await supabase
+      .from('spiffs')
+      .update({
+        status,
+        rejection_reason: status === 'rejected' ? rejectionReason : null,
+      })
+      .eq('id', spiffId);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error reviewing spiff:', error);
+    throw error;
+  }
+}
+
+export async function updateDealStatus(saleId: string, status: DealStatus) {
+  try {
+    const { error } = await supabase
+      .from('sales')
+      .update({ deal_status: status })
+      .eq('id', saleId);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating deal status:', error);
+    throw error;
+  }
+}
+
+// Stock numbers already on any live sale, whoever sold it
+export async function getExistingStockNumbers(stockNumbers: string[]): Promise<Set<string>> {
+  try {
+    if (stockNumbers.length === 0) return new Set();
+
+    const { data, error } = await supabase.rpc('get_existing_stock_numbers', {
+      stock_numbers: stockNumbers,
+    });
+
+    if (error) throw error;
+
+    return new Set<string>(data || []);
+  } catch (error) {
+    console.error('Error checking stock numbers:', error);
+    throw error;
+  }
+}
+
+export async function importSales(sales: Omit<SaleEntry, 'id'>[]) {
+  try {
+    const { data, error } = await supabase
+      .from('sales')
+      .insert(sales)
+      .select();
+
+    if (error) throw error;
+
+    return { success: true, count: sales.length, sales: (data || []) as SaleEntry[] };
+  } catch (error) {
+    console.error('Error importing sales:', error);
+    throw error;
+  }
+}
+
+// Keeps the original sale and deducts what each participant was credited,
+// in the month the deal came back. The chargebacks are worked out by the
+// database.
+export async function unwindSale(saleId: string, unwindDate: string, reason: string) {
+  try {
+    const { error } = await supabase.rpc('unwind_sale', {
+      sale: saleId,
+      unwind_date: unwindDate,
+      reason,
+    });
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error unwinding sale:', error);
+    throw error;
+  }
+}
+
+// Newest first, with the email of whoever made each change. A sale's history
+// includes changes to its shares.
+export async function getAuditHistory(table: AuditTable, recordId: string): Promise<AuditEntry[]> {
+  try {
+    const query = supabase.from('audit_log').select('*');
+    const { data, error } = await (table === 'sales'
+      ? query.or(`and(table_name.eq.sales,record_id.eq.${recordId}),and(table_name.eq.sale_shares,parent_id.eq.${recordId})`)
+      : query.eq('table_name', table).eq('record_id', recordId)
+    ).order('changed_at', { ascending: false });
+
+    if (error) throw error;
+
+    const userIds = [...new Set((data || []).map(entry => entry.changed_by).filter(Boolean))];
+    const emails = new Map<string, string | null>(
+      await Promise.all(userIds.map(async id => [id, await getUserEmailFromId(id)] as const))
+    );
+
+    return (data || []).map(entry => ({
+      ...entry,
+      changed_by_email: entry.changed_by ? emails.get(entry.changed_by) : null,
+    }));
+  } catch (error) {
+    console.error('Error fetching history:', error);
+    throw error;
+  }
+}
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export type TrashTable = 'sales' | 'spiffs';
+
+export async function moveToTrash(table: TrashTable, id: string) {
+  try {
+    const { error } = await supabase
+      .from(table)
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error moving entry to trash:', error);
+    throw error;
+  }
+}
+
+export async function restoreFromTrash(table: TrashTable, id: string) {
+  try {
+    const { error } = await supabase
+      .from(table)
+      .update({ deleted_at: null })
+      .eq('id', id);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error restoring entry:', error);
+    throw error;
+  }
+}
+
+// Sales and spiffs a user deleted within the retention window, most recent first.
+// Spiffs trashed along with their sale come back with it, so they aren't listed.
+export async function getTrash(userId: string): Promise<{ sales: SaleEntry[]; spiffs: SpiffEntry[] }> {
+  try {
+    const cutoff = subDays(new Date(), TRASH_RETENTION_DAYS).toISOString();
+    const [sales, spiffs] = await Promise.all([
+      supabase
+        .from('sales')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('deleted_at', cutoff)
+        .order('deleted_at', { ascending: false }),
+      supabase
+        .from('spiffs')
+        .select('*, sales (stock_number, customer_name, customer_id, sale_type, vehicle_year, vehicle_make, vehicle_model, vin, deleted_at)')
+        .eq('user_id', userId)
+        .gte('deleted_at', cutoff)
+        .order('deleted_at', { ascending: false }),
+    ]);
+
+    if (sales.error) throw sales.error;
+    if (spiffs.error) throw spiffs.error;
+
+    return {
+      sales: sales.data || [],
+      spiffs: (spiffs.data || []).filter(spiff => !spiff.sales?.deleted_at),
+    };
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    throw error;
+  }
+}
+
+export async function getSharedSaleNotifications(userId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select(`
+        *,
+        sales (
+          id,
+          stock_number,
+          customer_name,
+          sale_type,
+          sale_price,
+          deleted_at,
+          date
+        ),
+        sale_shares (
+          id,
+          email,
+          percentage,
+          status,
+          counter_percentage,
+          response_note
+        ),
+        spiffs (
+          id,
+          amount,
+          note,
+          status,
+          rejection_reason,
+          deleted_at,
+          date
+        )
+      `)
+      .eq('user_id', userId)
+      .eq('read', false)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    // Notifications outlive trashed entries so they come back on restore
+    return (data || []).filter(notification =>
+      !notification.sales?.deleted_at && !notification.spiffs?.deleted_at
+    );
   } catch (error) {
     console.error('Error fetching notifications:', error);
     throw error;
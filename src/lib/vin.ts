@@ -0,0 +1,116 @@
+// Offline VIN checks for North American VINs (49 CFR 565): the check digit in
+// position 9, the world manufacturer identifier (WMI) in positions 1-3, the
+// model year in position 10 and the assembly plant in position 11.
+
+export interface DecodedVin {
+  vin: string;
+  wmi: string;
+  // null when the WMI isn't in the table below
+  make: string | null;
+  country: string | null;
+  modelYear: number | null;
+  plantCode: string;
+  serialNumber: string;
+}
+
+const VIN_LENGTH = 17;
+
+// I, O and Q are never used so they can't be mistaken for 1 and 0
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 runs through these in a 30-year cycle starting with 1980
+const YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+// Makes we sell or commonly take in on trade. Anything else still validates;
+// it just decodes without a make.
+const WMI_MAKES: Record<string, string> = {
+  JA3: 'Mitsubishi', JA4: 'Mitsubishi', JA7: 'Mitsubishi', '4A3': 'Mitsubishi', '4A4': 'Mitsubishi', ML3: 'Mitsubishi',
+  '1FA': 'Ford', '1FM': 'Ford', '1FT': 'Ford', '2FM': 'Ford', '3FA': 'Ford',
+  '1G1': 'Chevrolet', '1GC': 'Chevrolet', '1GN': 'Chevrolet', '2G1': 'Chevrolet', '1GT': 'GMC',
+  '1HG': 'Honda', '2HG': 'Honda', '5FN': 'Honda', '5J6': 'Honda', JHM: 'Honda',
+  '19U': 'Acura', JH4: 'Acura',
+  '4T1': 'Toyota', '4T3': 'Toyota', '5TD': 'Toyota', '5TF': 'Toyota', '2T1': 'Toyota', '2T3': 'Toyota',
+  JTD: 'Toyota', JTE: 'Toyota', JTM: 'Toyota', JTN: 'Toyota', JTH: 'Lexus', '2T2': 'Lexus',
+  '1N4': 'Nissan', '1N6': 'Nissan', '3N1': 'Nissan', '5N1': 'Nissan', JN1: 'Nissan', JN8: 'Nissan',
+  KMH: 'Hyundai', KM8: 'Hyundai', '5NP': 'Hyundai', '5NM': 'Hyundai',
+  KNA: 'Kia', KND: 'Kia', '5XX': 'Kia', '5XY': 'Kia',
+  JF1: 'Subaru', JF2: 'Subaru', '4S3': 'Subaru', '4S4': 'Subaru',
+  JM1: 'Mazda', JM3: 'Mazda',
+  WVW: 'Volkswagen', WVG: 'Volkswagen', '1VW': 'Volkswagen', '3VW': 'Volkswagen',
+  WBA: 'BMW', WBX: 'BMW', '5UX': 'BMW',
+  WDD: 'Mercedes-Benz', WDC: 'Mercedes-Benz', W1K: 'Mercedes-Benz', W1N: 'Mercedes-Benz', '4JG': 'Mercedes-Benz',
+  WAU: 'Audi', WA1: 'Audi',
+  '5YJ': 'Tesla', '7SA': 'Tesla',
+};
+
+const COUNTRIES: Record<string, string> = {
+  '1': 'United States', '4': 'United States', '5': 'United States', '7': 'United States',
+  '2': 'Canada', '3': 'Mexico',
+  J: 'Japan', K: 'South Korea', L: 'China', W: 'Germany', Y: 'Sweden', Z: 'Italy',
+};
+
+// Strips the spaces and dashes people paste in along with the VIN
+export const normalizeVin = (value: string) => value.toUpperCase().replace(/[\s-]/g, '');
+
+export function getCheckDigit(vin: string) {
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /[0-9]/.test(char) ? Number(char) : TRANSLITERATION[char];
+    return total + value * WEIGHTS[index];
+  }, 0);
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+// Why the VIN can't be right, or null when it passes
+export function validateVin(value: string): string | null {
+  const vin = normalizeVin(value);
+  if (vin.length !== VIN_LENGTH) return `A VIN has 17 characters; this one has ${vin.length}`;
+  if (/[IOQ]/.test(vin)) return 'VINs never contain the letters I, O or Q';
+  if (!VIN_PATTERN.test(vin)) return 'VINs only contain letters and numbers';
+  if (getCheckDigit(vin) !== vin[8]) return 'The check digit doesn\'t match — one of the characters is mistyped';
+  return null;
+}
+
+// Position 10 repeats every 30 years. Passenger vehicles from 2010 on use a
+// letter in position 7, older ones a digit, which settles the cycle.
+export function getModelYear(vin: string, today = new Date()): number | null {
+  const index = YEAR_CODES.indexOf(vin[9]);
+  if (index < 0) return null;
+
+  const year = 1980 + index + (/[A-Z]/.test(vin[6]) ? 30 : 0);
+  // A model year can be one ahead of the calendar year, never more
+  return year > today.getFullYear() + 1 ? year - 30 : year;
+}
+
+export function decodeVin(value: string): DecodedVin | null {
+  const vin = normalizeVin(value);
+  if (validateVin(vin)) return null;
+
+  const wmi = vin.slice(0, 3);
+  return {
+    vin,
+    wmi,
+    make: WMI_MAKES[wmi] || null,
+    country: COUNTRIES[vin[0]] || null,
+    modelYear: getModelYear(vin),
+    plantCode: vin[10],
+    serialNumber: vin.slice(11),
+  };
+}
+
+// e.g. "2024 Mitsubishi · Japan · plant Z"
+export function describeDecodedVin(decoded: DecodedVin) {
+  return [
+    [decoded.modelYear, decoded.make || `WMI ${decoded.wmi}`].filter(Boolean).join(' '),
+    decoded.country,
+    `plant ${decoded.plantCode}`,
+  ].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,427 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { useAuth } from '../hooks/useAuth';
+import { useCommissionPlans } from '../hooks/useCommissionPlans';
+import { useProfile } from '../hooks/useProfile';
+import { publishCommissionPlan } from '../lib/supabase';
+import { CommissionPlanRules, getPlanForDate } from '../lib/commissionPlans';
+import PageHeader from '../components/PageHeader';
+import PayPeriodSettings from '../components/PayPeriodSettings';
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), 'MM/dd/yyyy');
+
+export default function CommissionPlans() {
+  const { session } = useAuth();
+  const { plans, refreshPlans } = useCommissionPlans();
+  const { isManager } = useProfile();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [name, setName] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(today);
+  const [rules, setRules] = useState<CommissionPlanRules>(getPlanForDate(plans, today).rules);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setRules(getPlanForDate(plans, today).rules);
+  }, [plans, today]);
+
+  const updateTier = (index: number, field: 'min_price' | 'amount', value: string) => {
+    setRules(prev => ({
+      ...prev,
+      car_tiers: prev.car_tiers.map((tier, i) =>
+        i === index ? { ...tier, [field]: Number(value) } : tier
+      ),
+    }));
+  };
+
+  const addTier = () => {
+    setRules(prev => ({
+      ...prev,
+      car_tiers: [...prev.car_tiers, { min_price: 0, amount: 0 }],
+    }));
+  };
+
+  const removeTier = (index: number) => {
+    setRules(prev => ({
+      ...prev,
+      car_tiers: prev.car_tiers.filter((_, i) => i !== index),
+    }));
+  };
+
+  const updateVolumeTier = (index: number, field: 'min_units' | 'amount', value: string) => {
+    setRules(prev => ({
+      ...prev,
+      volume_bonus_tiers: (prev.volume_bonus_tiers || []).map((tier, i) =>
+        i === index ? { ...tier, [field]: Number(value) } : tier
+      ),
+    }));
+  };
+
+  const addVolumeTier = () => {
+    setRules(prev => ({
+      ...prev,
+      volume_bonus_tiers: [...(prev.volume_bonus_tiers || []), { min_units: 0, amount: 0 }],
+    }));
+  };
+
+  const removeVolumeTier = (index: number) => {
+    setRules(prev => ({
+      ...prev,
+      volume_bonus_tiers: (prev.volume_bonus_tiers || []).filter((_, i) => i !== index),
+    }));
+  };
+
+  const updateRule = <K extends 'accessories' | 'warranty' | 'maintenance'>(
+    section: K,
+    field: keyof CommissionPlanRules[K],
+    value: string
+  ) => {
+    setRules(prev => ({
+      ...prev,
+      [section]: { ...prev[section], [field]: Number(value) },
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name || !effectiveFrom) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    if (rules.car_tiers.length === 0) {
+      toast.error('A plan needs at least one car commission tier');
+      return;
+    }
+
+    // Past months have been paid under the plan in force at the time
+    if (effectiveFrom < today) {
+      toast.error("A plan can't take effect before today");
+      return;
+    }
+
+    if (plans.some(plan => plan.effective_from >= effectiveFrom)) {
+      toast.error('The effective date must be after the latest published plan');
+      return;
+    }
+
+    if (!session?.user?.id) return;
+
+    setIsSubmitting(true);
+    try {
+      await publishCommissionPlan(
+        {
+          name,
+          effective_from: effectiveFrom,
+          rules: {
+            ...rules,
+            car_tiers: [...rules.car_tiers].sort((a, b) => a.min_price - b.min_price),
+            volume_bonus_tiers: [...(rules.volume_bonus_tiers || [])].sort((a, b) => a.min_units - b.min_units),
+          },
+        },
+        session.user.id
+      );
+      toast.success('Commission plan published successfully');
+      setName('');
+      await refreshPlans();
+    } catch (error: any) {
+      console.error('Error publishing commission plan:', error);
+      toast.error(error.message || 'Error publishing commission plan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <PageHeader subtitle="Commission Plans">
+        <Link
+          to="/"
+          className="text-gray-300 hover:text-white transition-colors flex items-center"
+        >
+          <ArrowLeft className="h-5 w-5 mr-2" />
+          Dashboard
+        </Link>
+      </PageHeader>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <section className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Published Plans</h2>
+          {plans.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No plans published yet. The standard pay plan applies to every sale.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {plans.map(plan => (
+                <li key={plan.id} className="py-4">
+                  <div className="flex justify-between">
+                    <p className="text-sm font-medium text-gray-900">{plan.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {formatDay(plan.effective_from)} – {plan.effective_to ? formatDay(plan.effective_to) : 'Present'}
+                    </p>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Car: {plan.rules.car_tiers.map(tier => `$${tier.amount} from $${tier.min_price.toLocaleString()}`).join(', ')}
+                  </p>
+                  {plan.rules.volume_bonus_tiers && plan.rules.volume_bonus_tiers.length > 0 && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Volume: {plan.rules.volume_bonus_tiers.map(tier => `$${tier.amount.toLocaleString()} at ${tier.min_units} units`).join(', ')}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {isManager && (
+          <section className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">Publish New Plan</h2>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Plan Name <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Effective From <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="date"
+                    required
+                    min={today}
+                    value={effectiveFrom}
+                    onChange={(e) => setEffectiveFrom(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center">
+                  <h3 className="text-sm font-semibold text-gray-700">Car Commission Tiers</h3>
+                  <button
+                    type="button"
+                    onClick={addTier}
+                    className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add tier
+                  </button>
+                </div>
+                {rules.car_tiers.map((tier, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-4 items-end mt-2">
+                    <div>
+                      <label className="block text-xs text-gray-500">Sale price from</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={tier.min_price}
+                        onChange={(e) => updateTier(index, 'min_price', e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500">Commission</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={tier.amount}
+                        onChange={(e) => updateTier(index, 'amount', e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => removeTier(index)}
+                      className="p-2 text-red-600 hover:text-red-800 transition-colors"
+                      title="Remove tier"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700">Accessories</h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-xs text-gray-500">New threshold</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={rules.accessories.new_threshold}
+                      onChange={(e) => updateRule('accessories', 'new_threshold', e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500">Used threshold</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={rules.accessories.used_threshold}
+                      onChange={(e) => updateRule('accessories', 'used_threshold', e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500">Over threshold by</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={rules.accessories.min_excess}
+                      onChange={(e) => updateRule('accessories', 'min_excess', e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500">Commission</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={rules.accessories.amount}
+                      onChange={(e) => updateRule('accessories', 'amount', e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700">Warranty</h3>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs text-gray-500">Per profit of</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={rules.warranty.profit_step}
+                        onChange={(e) => updateRule('warranty', 'profit_step', e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500">Commission</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={rules.warranty.amount_per_step}
+                        onChange={(e) => updateRule('warranty', 'amount_per_step', e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700">Maintenance</h3>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs text-gray-500">Price over</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={rules.maintenance.min_price}
+                        onChange={(e) => updateRule('maintenance', 'min_price', e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500">Commission</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={rules.maintenance.amount}
+                        onChange={(e) => updateRule('maintenance', 'amount', e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center">
+                  <h3 className="text-sm font-semibold text-gray-700">Monthly Volume Bonus</h3>
+                  <button
+                    type="button"
+                    onClick={addVolumeTier}
+                    className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add tier
+                  </button>
+                </div>
+                {(rules.volume_bonus_tiers || []).map((tier, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-4 items-end mt-2">
+                    <div>
+                      <label className="block text-xs text-gray-500">Units sold</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={tier.min_units}
+                        onChange={(e) => updateVolumeTier(index, 'min_units', e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500">Bonus</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={tier.amount}
+                        onChange={(e) => updateVolumeTier(index, 'amount', e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => removeVolumeTier(index)}
+                      className="p-2 text-red-600 hover:text-red-800 transition-colors"
+                      title="Remove tier"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end pt-4">
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Publishing...' : 'Publish Plan'}
+                </button>
+              </div>
+            </form>
+          </section>
+        )}
+
+        {isManager && <PayPeriodSettings />}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Pencil } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { DEAL_STATUS_LABELS, getCustomerHistory, updateCustomer } from '../lib/supabase';
+import { Customer, CustomerSale, isTradeIn } from '../lib/customers';
+import PageHeader from '../components/PageHeader';
+import LoadingScreen from '../components/LoadingScreen';
+
+const headClassName = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+const formatDay = (date: string) => format(new Date(`${date.split('T')[0]}T00:00:00`), 'MM/dd/yyyy');
+
+const describeVehicle = (sale: CustomerSale) =>
+  [sale.vehicle_year, sale.vehicle_make, sale.vehicle_model].filter(Boolean).join(' ') || '-';
+
+const getSalespeople = (sale: CustomerSale) =>
+  [sale.salesperson_email, ...sale.shared_with_emails].filter(Boolean).join(', ') || '-';
+
+function getDealStatus(sale: CustomerSale) {
+  if (sale.unwound_at) return 'Unwound';
+  return DEAL_STATUS_LABELS[sale.deal_status || 'funded'];
+}
+
+function SalesTable({ sales, emptyText }: { sales: CustomerSale[]; emptyText: string }) {
+  return (
+    <table className="min-w-full divide-y divide-gray-200 text-sm">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className={headClassName}>Date</th>
+          <th className={headClassName}>Stock #</th>
+          <th className={headClassName}>Vehicle</th>
+          <th className={headClassName}>VIN</th>
+          <th className={headClassName}>Type</th>
+          <th className={headClassName}>Status</th>
+          <th className={headClassName}>Salespeople</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {sales.length === 0 && (
+          <tr>
+            <td colSpan={7} className="px-4 py-6 text-center text-gray-500">{emptyText}</td>
+          </tr>
+        )}
+        {sales.map(sale => (
+          <tr key={sale.id} className={sale.unwound_at ? 'italic' : ''}>
+            <td className="px-4 py-3 whitespace-nowrap text-gray-600">{formatDay(sale.date)}</td>
+            <td className="px-4 py-3 whitespace-nowrap">{sale.stock_number}</td>
+            <td className="px-4 py-3 text-gray-900">{describeVehicle(sale)}</td>
+            <td className="px-4 py-3 text-gray-600 font-mono">{sale.vin || '-'}</td>
+            <td className="px-4 py-3">{sale.sale_type}</td>
+            <td className="px-4 py-3 whitespace-nowrap">{getDealStatus(sale)}</td>
+            <td className="px-4 py-3 text-gray-600">{getSalespeople(sale)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function CustomerDetails() {
+  const { id } = useParams<{ id: string }>();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [sales, setSales] = useState<CustomerSale[]>([]);
+  const [draft, setDraft] = useState<Customer | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [id]);
+
+  const fetchHistory = async () => {
+    if (!id) return;
+
+    try {
+      const history = await getCustomerHistory(id);
+      setCustomer(history.customer);
+      setSales(history.sales);
+    } catch (error: any) {
+      console.error('Error fetching customer history:', error);
+      toast.error('Error fetching customer history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const purchases = useMemo(() => sales.filter(sale => sale.sale_type !== 'Trade-In'), [sales]);
+  const tradeIns = useMemo(() => sales.filter(isTradeIn), [sales]);
+  const salespeople = useMemo(
+    () => [...new Set(sales.flatMap(sale => [sale.salesperson_email, ...sale.shared_with_emails]).filter(Boolean))],
+    [sales]
+  );
+
+  const handleDraftChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setDraft(prev => (prev ? { ...prev, [name]: value } : prev));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      toast.error('Please enter a name');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = {
+        ...draft,
+        name: draft.name.trim(),
+        phone: draft.phone?.trim() || null,
+        email: draft.email?.trim() || null,
+        address: draft.address?.trim() || null,
+      };
+      await updateCustomer(updated);
+      setCustomer(updated);
+      setDraft(null);
+      toast.success('Customer updated');
+    } catch (error: any) {
+      console.error('Error updating customer:', error);
+      toast.error(error.message || 'Error updating customer');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <PageHeader subtitle="Customer">
+        <Link
+          to="/"
+          className="text-gray-300 hover:text-white transition-colors flex items-center"
+        >
+          <ArrowLeft className="h-5 w-5 mr-2" />
+          Dashboard
+        </Link>
+      </PageHeader>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {!customer && (
+          <p className="text-gray-600">This customer doesn't exist or was removed.</p>
+        )}
+
+        {customer && !draft && (
+          <section className="bg-white rounded-lg shadow-md p-6 flex justify-between">
+            <div className="space-y-1">
+              <h2 className="text-2xl font-bold text-gray-900">{customer.name}</h2>
+              {customer.phone && <p className="text-sm text-gray-600">{customer.phone}</p>}
+              {customer.email && <p className="text-sm text-gray-600">{customer.email}</p>}
+              {customer.address && <p className="text-sm text-gray-600">{customer.address}</p>}
+              <p className="text-sm text-gray-600 pt-2">
+                {purchases.length} purchase{purchases.length === 1 ? '' : 's'}
+                {salespeople.length > 0 && ` · worked with ${salespeople.join(', ')}`}
+              </p>
+            </div>
+            <button
+              onClick={() => setDraft(customer)}
+              className="self-start p-1 text-blue-600 hover:text-blue-800"
+              title="Edit"
+            >
+              <Pencil className="h-4 w-4" />
+            </button>
+          </section>
+        )}
+
+        {draft && (
+          <form onSubmit={handleSave} className="bg-white rounded-lg shadow-md p-6 space-y-4 max-w-xl">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Name <span className="text-red-500">*</span>
+              </label>
+              <input type="text" name="name" required value={draft.name} onChange={handleDraftChange} className={inputClassName} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Phone</label>
+                <input type="tel" name="phone" value={draft.phone || ''} onChange={handleDraftChange} className={inputClassName} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Email</label>
+                <input type="email" name="email" value={draft.email || ''} onChange={handleDraftChange} className={inputClassName} />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Address</label>
+              <input type="text" name="address" value={draft.address || ''} onChange={handleDraftChange} className={inputClassName} />
+            </div>
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                disabled={isSaving}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save Customer'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {customer && (
+          <>
+            <section className="bg-white rounded-lg shadow-md overflow-x-auto">
+              <h3 className="px-4 py-3 text-lg font-semibold text-gray-900">Purchases</h3>
+              <SalesTable sales={purchases} emptyText="No purchases yet" />
+            </section>
+
+            <section className="bg-white rounded-lg shadow-md overflow-x-auto">
+              <h3 className="px-4 py-3 text-lg font-semibold text-gray-900">Trade-Ins</h3>
+              <SalesTable sales={tradeIns} emptyText="No trade-ins" />
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,27 +1,69 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
-import { supabase, SaleEntry, SpiffEntry } from '../lib/supabase';
-import { LogOut, Plus } from 'lucide-react';
+import { usePayPeriod } from '../hooks/usePayPeriod';
+import { useProfile } from '../hooks/useProfile';
+import {
+  supabase,
+  SaleEntry,
+  SpiffEntry,
+  ChargebackEntry,
+  PeriodEntries,
+  DealStatus,
+  DEAL_STATUS_LABELS,
+  getChargebacks,
+  getPeriodEntries,
+  getSales,
+  getSpiffs,
+  getUserShare,
+  moveToTrash,
+  respondToShare,
+  restoreFromTrash,
+  updateDealStatus,
+} from '../lib/supabase';
+import { Banknote, Car, ClipboardCheck, FileText, Gift, LogOut, Plus, Receipt, Trash2, Upload, Users } from 'lucide-react';
 import { toast } from 'react-hot-toast';
-import { format, startOfMonth, endOfMonth } from 'date-fns';
 import SalesGrid from '../components/SalesGrid';
 import DashboardStats from '../components/DashboardStats';
 import NewSaleModal from '../components/NewSaleModal';
-import MonthFilter from '../components/MonthFilter';
+import UnwindSaleModal from '../components/UnwindSaleModal';
+import ImportDealsModal from '../components/ImportDealsModal';
+import PeriodFilter from '../components/PeriodFilter';
 import SharedSalesNotifications from '../components/SharedSalesNotifications';
 import LoadingScreen from '../components/LoadingScreen';
+import PageHeader from '../components/PageHeader';
+import { EMPTY_PERIOD_ENTRIES, filterEntriesByPeriod } from '../lib/periodSummary';
+import {
+  COMPARISON_LABELS,
+  ComparisonMode,
+  getComparisonPeriod,
+  getFetchRange,
+  getPayPeriod,
+  toDateRange,
+} from '../lib/payPeriods';
 
 export default function Dashboard() {
   const { signOut, session } = useAuth();
+  const { definition } = usePayPeriod();
+  const { isManager } = useProfile();
   const navigate = useNavigate();
   const [sales, setSales] = useState<SaleEntry[]>([]);
   const [spiffs, setSpiffs] = useState<SpiffEntry[]>([]);
+  const [chargebacks, setChargebacks] = useState<ChargebackEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [isNewSaleModalOpen, setIsNewSaleModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [currentDate, setCurrentDate] = useState(new Date());
   const [userName, setUserName] = useState('');
   const [selectedItem, setSelectedItem] = useState<SaleEntry | SpiffEntry | null>(null);
+  const [unwindingSale, setUnwindingSale] = useState<SaleEntry | null>(null);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('previous');
+  const [comparisonEntries, setComparisonEntries] = useState<PeriodEntries>(EMPTY_PERIOD_ENTRIES);
+  const period = useMemo(() => getPayPeriod(currentDate, definition), [currentDate, definition]);
+  const comparisonPeriod = useMemo(
+    () => getComparisonPeriod(period, definition, comparisonMode),
+    [period, definition, comparisonMode]
+  );
 
   useEffect(() => {
     if (!session?.user?.id) {
@@ -31,7 +73,12 @@ export default function Dashboard() {
     fetchUserName();
     fetchSales();
     fetchSpiffs();
-  }, [currentDate, session?.user?.id, navigate]);
+    fetchChargebacks();
+  }, [period, session?.user?.id, navigate]);
+
+  useEffect(() => {
+    fetchComparison();
+  }, [comparisonPeriod, session?.user?.id]);
 
   const handleSignOut = async () => {
     try {
@@ -61,19 +108,8 @@ export default function Dashboard() {
     if (!session?.user?.id) return;
 
     try {
-      const startDate = format(startOfMonth(currentDate), 'yyyy-MM-dd');
-      const endDate = format(endOfMonth(currentDate), 'yyyy-MM-dd');
-
-      const { data, error } = await supabase
-        .from('sales')
-        .select('*')
-        .eq('user_id', session.user.id)
-        .gte('date', startDate)
-        .lte('date', endDate)
-        .order('date', { ascending: false });
-
-      if (error) throw error;
-      setSales(data || []);
+      const { startDate, endDate } = toDateRange(getFetchRange(period));
+      setSales(await getSales(session.user.id, startDate, endDate));
     } catch (error: any) {
       console.error('Error fetching sales data:', error);
       toast.error('Error fetching sales data');
@@ -86,55 +122,120 @@ export default function Dashboard() {
     if (!session?.user?.id) return;
 
     try {
-      const startDate = format(startOfMonth(currentDate), 'yyyy-MM-dd');
-      const endDate = format(endOfMonth(currentDate), 'yyyy-MM-dd');
-
-      const { data, error } = await supabase
-        .from('spiffs')
-        .select('*')
-        .eq('user_id', session.user.id)
-        .gte('date', startDate)
-        .lte('date', endDate)
-        .order('date', { ascending: false });
-
-      if (error) throw error;
-      setSpiffs(data || []);
+      const { startDate, endDate } = toDateRange(getFetchRange(period));
+      setSpiffs(await getSpiffs(session.user.id, startDate, endDate));
     } catch (error: any) {
       console.error('Error fetching spiffs data:', error);
       toast.error('Error fetching spiffs data');
     }
   };
 
+  const fetchChargebacks = async () => {
+    if (!session?.user?.id) return;
+
+    try {
+      const { startDate, endDate } = toDateRange(getFetchRange(period));
+      setChargebacks(await getChargebacks(session.user.id, startDate, endDate));
+    } catch (error: any) {
+      console.error('Error fetching chargebacks:', error);
+      toast.error('Error fetching chargebacks');
+    }
+  };
+
+  const fetchComparison = async () => {
+    if (!session?.user?.id) return;
+
+    try {
+      const { startDate, endDate } = toDateRange(getFetchRange(comparisonPeriod));
+      setComparisonEntries(await getPeriodEntries(session.user.id, startDate, endDate));
+    } catch (error: any) {
+      console.error('Error fetching comparison data:', error);
+      toast.error('Error fetching comparison data');
+    }
+  };
+
   const handleEdit = (item: SaleEntry | SpiffEntry) => {
     setSelectedItem(item);
     setIsNewSaleModalOpen(true);
   };
 
-  const handleDelete = async (id: string, type: 'sale' | 'spiff') => {
-    if (!window.confirm(`Are you sure you want to delete this ${type}?`)) {
-      return;
+  const refreshEntries = async (type: 'sale' | 'spiff') => {
+    if (type === 'sale') {
+      await Promise.all([fetchSales(), fetchSpiffs(), fetchChargebacks()]);
+    } else {
+      await fetchSpiffs();
     }
+  };
+
+  // Deleting moves the entry to the trash, so there's no confirmation; the
+  // toast offers an undo instead
+  const handleDelete = async (id: string, type: 'sale' | 'spiff') => {
+    const table = type === 'sale' ? 'sales' : 'spiffs';
+    const label = type === 'sale' ? 'Sale' : 'Spiff';
 
     try {
-      const { error } = await supabase
-        .from(type === 'sale' ? 'sales' : 'spiffs')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
-      
-      toast.success(`${type === 'sale' ? 'Sale' : 'Spiff'} deleted successfully`);
-      if (type === 'sale') {
-        await fetchSales();
-      } else {
-        await fetchSpiffs();
-      }
+      await moveToTrash(table, id);
+      await refreshEntries(type);
+      toast.success(t => (
+        <span className="flex items-center">
+          {label} moved to trash
+          <button
+            onClick={() => {
+              toast.dismiss(t.id);
+              handleUndoDelete(id, type);
+            }}
+            className="ml-3 font-medium text-blue-600 hover:text-blue-800"
+          >
+            Undo
+          </button>
+        </span>
+      ), { duration: 8000 });
     } catch (error: any) {
       console.error(`Error deleting ${type}:`, error);
       toast.error(`Error deleting ${type}`);
     }
   };
 
+  const handleUndoDelete = async (id: string, type: 'sale' | 'spiff') => {
+    try {
+      await restoreFromTrash(type === 'sale' ? 'sales' : 'spiffs', id);
+      await refreshEntries(type);
+      toast.success(`${type === 'sale' ? 'Sale' : 'Spiff'} restored`);
+    } catch (error: any) {
+      console.error(`Error restoring ${type}:`, error);
+      toast.error(`Error restoring ${type}`);
+    }
+  };
+
+  const handleLeaveShare = async (sale: SaleEntry) => {
+    if (!window.confirm('Are you sure you want to reject this shared sale?')) {
+      return;
+    }
+
+    const share = getUserShare(sale, session?.user?.id);
+    if (!share) return;
+
+    try {
+      await respondToShare(share.id, 'rejected');
+      toast.success('Shared sale rejected successfully');
+      await fetchSales();
+    } catch (error: any) {
+      console.error('Error rejecting shared sale:', error);
+      toast.error('Error rejecting shared sale');
+    }
+  };
+
+  const handleStatusChange = async (sale: SaleEntry, status: DealStatus) => {
+    try {
+      await updateDealStatus(sale.id, status);
+      toast.success(`Deal marked as ${DEAL_STATUS_LABELS[status].toLowerCase()}`);
+      await fetchSales();
+    } catch (error: any) {
+      console.error('Error updating deal status:', error);
+      toast.error('Error updating deal status');
+    }
+  };
+
   const handleNewSale = () => {
     setSelectedItem(null);
     setIsNewSaleModalOpen(true);
@@ -149,45 +250,98 @@ export default function Dashboard() {
     return <LoadingScreen />;
   }
 
+  const entries = { sales, spiffs, chargebacks };
+  const periodEntries = filterEntriesByPeriod(entries, period);
+
   return (
     <div className="min-h-screen bg-gray-100">
-      <nav className="bg-[#000000] shadow-sm">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between h-16">
-            <div className="flex items-center space-x-4">
-              <img 
-                src="https://www.mitsubishi-motors.com/content/dam/com/about-us/CI/logo.png" 
-                alt="Mitsubishi Logo" 
-                className="h-8"
-              />
-              <div>
-                <h1 className="text-xl font-bold text-white">Daly City Mitsubishi</h1>
-                <p className="text-sm text-gray-300">Sales Dashboard</p>
-              </div>
-            </div>
-            <div className="flex items-center space-x-4">
-              <button
-                onClick={handleNewSale}
-                className="bg-[#E60012] text-white px-4 py-2 rounded-md flex items-center hover:bg-[#cc0010] transition-colors"
-              >
-                <Plus className="h-5 w-5 mr-2" />
-                New Sale
-              </button>
-              <button
-                onClick={handleSignOut}
-                className="text-gray-300 hover:text-white transition-colors"
-                title="Sign out"
-              >
-                <LogOut className="h-6 w-6" />
-              </button>
-              <SharedSalesNotifications onNotificationAction={() => {
-                fetchSales();
-                fetchSpiffs();
-              }} />
-            </div>
-          </div>
-        </div>
-      </nav>
+      <PageHeader subtitle="Sales Dashboard">
+        <Link
+          to="/statement"
+          className="text-gray-300 hover:text-white transition-colors"
+          title="Commission statement"
+        >
+          <Receipt className="h-6 w-6" />
+        </Link>
+        <Link
+          to="/trash"
+          className="text-gray-300 hover:text-white transition-colors"
+          title="Trash"
+        >
+          <Trash2 className="h-6 w-6" />
+        </Link>
+        <Link
+          to="/incentives"
+          className="text-gray-300 hover:text-white transition-colors"
+          title="Incentive programs"
+        >
+          <Gift className="h-6 w-6" />
+        </Link>
+        <Link
+          to="/inventory"
+          className="text-gray-300 hover:text-white transition-colors"
+          title="Inventory"
+        >
+          <Car className="h-6 w-6" />
+        </Link>
+        {isManager && (
+          <>
+            <Link
+              to="/team"
+              className="text-gray-300 hover:text-white transition-colors"
+              title="Team dashboard"
+            >
+              <Users className="h-6 w-6" />
+            </Link>
+            <Link
+              to="/spiff-reviews"
+              className="text-gray-300 hover:text-white transition-colors"
+              title="Spiff approvals"
+            >
+              <ClipboardCheck className="h-6 w-6" />
+            </Link>
+            <Link
+              to="/payroll"
+              className="text-gray-300 hover:text-white transition-colors"
+              title="Payroll export"
+            >
+              <Banknote className="h-6 w-6" />
+            </Link>
+          </>
+        )}
+        <Link
+          to="/commission-plans"
+          className="text-gray-300 hover:text-white transition-colors"
+          title="Commission plans"
+        >
+          <FileText className="h-6 w-6" />
+        </Link>
+        <button
+          onClick={() => setIsImportModalOpen(true)}
+          className="text-gray-300 hover:text-white transition-colors"
+          title="Import deals"
+        >
+          <Upload className="h-6 w-6" />
+        </button>
+        <button
+          onClick={handleNewSale}
+          className="bg-[#E60012] text-white px-4 py-2 rounded-md flex items-center hover:bg-[#cc0010] transition-colors"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          New Sale
+        </button>
+        <button
+          onClick={handleSignOut}
+          className="text-gray-300 hover:text-white transition-colors"
+          title="Sign out"
+        >
+          <LogOut className="h-6 w-6" />
+        </button>
+        <SharedSalesNotifications onNotificationAction={() => {
+          fetchSales();
+          fetchSpiffs();
+        }} />
+      </PageHeader>
 
       <main className="max-w-[110%] mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-8">
@@ -195,21 +349,44 @@ export default function Dashboard() {
             Welcome, {userName}!
           </h2>
           <div className="flex items-center justify-between mt-4">
-            <MonthFilter
+            <PeriodFilter
               currentDate={currentDate}
               onDateChange={setCurrentDate}
             />
+            <select
+              value={comparisonMode}
+              onChange={(e) => setComparisonMode(e.target.value as ComparisonMode)}
+              className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+            >
+              {(Object.keys(COMPARISON_LABELS) as ComparisonMode[]).map(mode => (
+                <option key={mode} value={mode}>
+                  Compare to {COMPARISON_LABELS[mode]}
+                </option>
+              ))}
+            </select>
           </div>
         </div>
 
-        <DashboardStats sales={sales} spiffs={spiffs} />
+        <DashboardStats
+          entries={entries}
+          period={period}
+          comparisonEntries={comparisonEntries}
+          comparisonPeriod={comparisonPeriod}
+          comparisonLabel={COMPARISON_LABELS[comparisonMode]}
+        />
         
         <div className="bg-white rounded-lg shadow-md">
           <SalesGrid 
-            sales={sales}
-            spiffs={spiffs}
+            sales={periodEntries.sales}
+            spiffs={periodEntries.spiffs}
+            chargebacks={periodEntries.chargebacks}
+            period={period}
             onEdit={handleEdit}
             onDelete={handleDelete}
+            onLeaveShare={handleLeaveShare}
+            onUnwind={setUnwindingSale}
+            onStatusChange={handleStatusChange}
+            onSharesChange={fetchSales}
           />
         </div>
       </main>
@@ -222,6 +399,22 @@ export default function Dashboard() {
         }}
         editItem={selectedItem}
       />
+
+      <ImportDealsModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        onImported={async () => {
+          await Promise.all([fetchSales(), fetchSpiffs()]);
+        }}
+      />
+
+      <UnwindSaleModal
+        sale={unwindingSale}
+        onClose={() => setUnwindingSale(null)}
+        onUnwound={async () => {
+          await Promise.all([fetchSales(), fetchChargebacks()]);
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
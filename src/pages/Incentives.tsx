@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Pencil, Plus } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { useAuth } from '../hooks/useAuth';
+import { useProfile } from '../hooks/useProfile';
+import { getIncentivePrograms, saveIncentiveProgram } from '../lib/supabase';
+import { IncentiveProgram, describeEligibility } from '../lib/incentives';
+import { formatMoney } from '../lib/statement';
+import PageHeader from '../components/PageHeader';
+import IncentiveProgramModal from '../components/IncentiveProgramModal';
+import LoadingScreen from '../components/LoadingScreen';
+
+const headClassName = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), 'MM/dd/yyyy');
+
+function getProgramState(program: IncentiveProgram, today: string) {
+  if (!program.active) return { label: 'Inactive', className: 'bg-gray-100 text-gray-600' };
+  if (program.start_date > today) return { label: 'Upcoming', className: 'bg-blue-100 text-blue-700' };
+  if (program.end_date < today) return { label: 'Ended', className: 'bg-gray-100 text-gray-600' };
+  return { label: 'Running', className: 'bg-green-100 text-green-700' };
+}
+
+export default function Incentives() {
+  const { session } = useAuth();
+  const { isManager } = useProfile();
+  const [programs, setPrograms] = useState<IncentiveProgram[]>([]);
+  const [editing, setEditing] = useState<IncentiveProgram | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const today = new Date().toISOString().split('T')[0];
+
+  useEffect(() => {
+    fetchPrograms();
+  }, []);
+
+  const fetchPrograms = async () => {
+    try {
+      setPrograms(await getIncentivePrograms());
+    } catch (error: any) {
+      console.error('Error fetching incentive programs:', error);
+      toast.error('Error fetching incentive programs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openModal = (program: IncentiveProgram | null) => {
+    setEditing(program);
+    setIsModalOpen(true);
+  };
+
+  const toggleActive = async (program: IncentiveProgram) => {
+    if (!session?.user?.id) return;
+
+    try {
+      await saveIncentiveProgram({ ...program, active: !program.active }, session.user.id);
+      toast.success(program.active ? 'Program deactivated' : 'Program reactivated');
+      fetchPrograms();
+    } catch (error: any) {
+      console.error('Error updating incentive program:', error);
+      toast.error(error.message || 'Error updating incentive program');
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <PageHeader subtitle="Incentive Programs">
+        <Link
+          to="/"
+          className="text-gray-300 hover:text-white transition-colors flex items-center"
+        >
+          <ArrowLeft className="h-5 w-5 mr-2" />
+          Dashboard
+        </Link>
+      </PageHeader>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            Qualifying sales are matched against running programs when they're saved or imported.
+          </p>
+          {isManager && (
+            <button
+              onClick={() => openModal(null)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Program
+            </button>
+          )}
+        </div>
+
+        <section className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headClassName}>Program</th>
+                <th className={headClassName}>Dates</th>
+                <th className={headClassName}>Eligibility</th>
+                <th className={`${headClassName} text-right`}>Spiff</th>
+                <th className={headClassName}>Status</th>
+                {isManager && <th className="px-4 py-3" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {programs.length === 0 && (
+                <tr>
+                  <td colSpan={isManager ? 6 : 5} className="px-4 py-6 text-center text-gray-500">
+                    No incentive programs yet
+                  </td>
+                </tr>
+              )}
+              {programs.map(program => {
+                const state = getProgramState(program, today);
+                return (
+                  <tr key={program.id}>
+                    <td className="px-4 py-3 font-medium text-gray-900">{program.name}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                      {formatDay(program.start_date)} – {formatDay(program.end_date)}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{describeEligibility(program)}</td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">{formatMoney(program.amount)}</td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${state.className}`}>
+                        {state.label}
+                      </span>
+                    </td>
+                    {isManager && (
+                      <td className="px-4 py-3 whitespace-nowrap text-right space-x-3">
+                        <button
+                          onClick={() => toggleActive(program)}
+                          className="text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          {program.active ? 'Deactivate' : 'Reactivate'}
+                        </button>
+                        <button
+                          onClick={() => openModal(program)}
+                          className="p-1 text-blue-600 hover:text-blue-800 align-middle"
+                          title="Edit"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      </main>
+
+      <IncentiveProgramModal
+        isOpen={isModalOpen}
+        program={editing}
+        onClose={() => setIsModalOpen(false)}
+        onSaved={fetchPrograms}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Pencil, Plus } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { useProfile } from '../hooks/useProfile';
+import { getVehicles } from '../lib/supabase';
+import { Vehicle, describeVehicle, getDaysInStock } from '../lib/inventory';
+import { formatMoney } from '../lib/statement';
+import PageHeader from '../components/PageHeader';
+import VehicleModal from '../components/VehicleModal';
+import LoadingScreen from '../components/LoadingScreen';
+
+const headClassName = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+const formatDay = (date: string) => format(new Date(`${date.split('T')[0]}T00:00:00`), 'MM/dd/yyyy');
+
+// Vehicles on the lot longer than this are highlighted
+const AGED_DAYS = 60;
+
+export default function Inventory() {
+  const { isManager } = useProfile();
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [search, setSearch] = useState('');
+  const [showSold, setShowSold] = useState(false);
+  const [editing, setEditing] = useState<Vehicle | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchVehicles();
+  }, []);
+
+  const fetchVehicles = async () => {
+    try {
+      setVehicles(await getVehicles());
+    } catch (error: any) {
+      console.error('Error fetching vehicles:', error);
+      toast.error('Error fetching vehicles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const visibleVehicles = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return vehicles.filter(vehicle =>
+      (showSold || !vehicle.sale_id) &&
+      (!term || [vehicle.stock_number, vehicle.vin, describeVehicle(vehicle)]
+        .some(value => value?.toLowerCase().includes(term)))
+    );
+  }, [vehicles, search, showSold]);
+
+  const openModal = (vehicle: Vehicle | null) => {
+    setEditing(vehicle);
+    setIsModalOpen(true);
+  };
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  const columnCount = isManager ? 8 : 6;
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <PageHeader subtitle="Inventory">
+        <Link
+          to="/"
+          className="text-gray-300 hover:text-white transition-colors flex items-center"
+        >
+          <ArrowLeft className="h-5 w-5 mr-2" />
+          Dashboard
+        </Link>
+      </PageHeader>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search stock #, VIN or model"
+              className="w-72 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showSold}
+                onChange={(e) => setShowSold(e.target.checked)}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Show sold
+            </label>
+          </div>
+          {isManager && (
+            <button
+              onClick={() => openModal(null)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Vehicle
+            </button>
+          )}
+        </div>
+
+        <section className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headClassName}>Stock #</th>
+                <th className={headClassName}>Vehicle</th>
+                <th className={headClassName}>VIN</th>
+                <th className={headClassName}>New / Used</th>
+                {isManager && <th className={`${headClassName} text-right`}>Cost</th>}
+                <th className={`${headClassName} text-right`}>Days in Stock</th>
+                <th className={headClassName}>Status</th>
+                {isManager && <th className="px-4 py-3" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visibleVehicles.length === 0 && (
+                <tr>
+                  <td colSpan={columnCount} className="px-4 py-6 text-center text-gray-500">
+                    No vehicles found
+                  </td>
+                </tr>
+              )}
+              {visibleVehicles.map(vehicle => {
+                const daysInStock = getDaysInStock(vehicle);
+                return (
+                  <tr key={vehicle.id}>
+                    <td className="px-4 py-3 font-medium text-gray-900 whitespace-nowrap">{vehicle.stock_number}</td>
+                    <td className="px-4 py-3 text-gray-900">{describeVehicle(vehicle)}</td>
+                    <td className="px-4 py-3 text-gray-600 font-mono">{vehicle.vin || '-'}</td>
+                    <td className="px-4 py-3">{vehicle.condition}</td>
+                    {isManager && (
+                      <td className="px-4 py-3 text-right whitespace-nowrap">{formatMoney(vehicle.cost)}</td>
+                    )}
+                    <td
+                      className={`px-4 py-3 text-right ${
+                        !vehicle.sale_id && daysInStock > AGED_DAYS ? 'text-red-600 font-medium' : 'text-gray-600'
+                      }`}
+                    >
+                      {daysInStock}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {vehicle.sold_on ? (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                          Sold {formatDay(vehicle.sold_on)}
+                        </span>
+                      ) : (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-700">
+                          Available
+                        </span>
+                      )}
+                    </td>
+                    {isManager && (
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          onClick={() => openModal(vehicle)}
+                          className="p-1 text-blue-600 hover:text-blue-800 align-middle"
+                          title="Edit"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      </main>
+
+      <VehicleModal
+        isOpen={isModalOpen}
+        vehicle={editing}
+        onClose={() => setIsModalOpen(false)}
+        onSaved={fetchVehicles}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, Download, XCircle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useCommissionPlans } from '../hooks/useCommissionPlans';
+import { usePayPeriod } from '../hooks/usePayPeriod';
+import { PeriodEntries, getPayrollEntries, getPayrollLayout } from '../lib/supabase';
+import { EMPTY_PERIOD_ENTRIES, filterEntriesByPeriod } from '../lib/periodSummary';
+import { getFetchRange, getPayPeriod, toDateRange } from '../lib/payPeriods';
+import { formatMoney } from '../lib/statement';
+import { buildPayroll, downloadPayrollFile, formatPayrollFile, getLayoutErrors } from '../lib/payroll';
+import {
+  DEFAULT_PAYROLL_LAYOUT,
+  EARNINGS_CATEGORY_LABELS,
+  EarningsCategory,
+  PayrollEmployee,
+  PayrollLayout,
+} from '../lib/payrollLayout';
+import PageHeader from '../components/PageHeader';
+import PeriodFilter from '../components/PeriodFilter';
+import PayrollLayoutSettings from '../components/PayrollLayoutSettings';
+import LoadingScreen from '../components/LoadingScreen';
+
+const PREVIEW_LINES = 20;
+
+export default function Payroll() {
+  const { plans } = useCommissionPlans();
+  const { definition } = usePayPeriod();
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [entries, setEntries] = useState<PeriodEntries>(EMPTY_PERIOD_ENTRIES);
+  const [employees, setEmployees] = useState<PayrollEmployee[]>([]);
+  const [layout, setLayout] = useState<PayrollLayout>(DEFAULT_PAYROLL_LAYOUT);
+  const [loading, setLoading] = useState(true);
+  const period = useMemo(() => getPayPeriod(currentDate, definition), [currentDate, definition]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [period]);
+
+  useEffect(() => {
+    fetchLayout();
+  }, []);
+
+  const fetchEntries = async () => {
+    try {
+      const { startDate, endDate } = toDateRange(getFetchRange(period));
+      const data = await getPayrollEntries(startDate, endDate);
+      setEmployees(data.employees);
+      setEntries(data.entries);
+    } catch (error: any) {
+      console.error('Error fetching payroll data:', error);
+      toast.error('Error fetching payroll data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLayout = async () => {
+    try {
+      setLayout(await getPayrollLayout());
+    } catch (error: any) {
+      console.error('Error fetching payroll layout:', error);
+      toast.error('Error fetching payroll layout');
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  const payroll = buildPayroll(entries, employees, period, plans);
+  const layoutErrors = getLayoutErrors(payroll.lines, layout, period);
+  const canExport = payroll.balanced && layoutErrors.length === 0 && payroll.lines.length > 0;
+  const preview = formatPayrollFile(payroll.lines.slice(0, PREVIEW_LINES), layout, period);
+  const categories = Object.keys(EARNINGS_CATEGORY_LABELS) as EarningsCategory[];
+  const submittedSpiffs = filterEntriesByPeriod(entries, period).spiffs.filter(spiff => spiff.status === 'submitted');
+
+  const handleExport = () => {
+    try {
+      downloadPayrollFile(payroll, layout, period);
+    } catch (error: any) {
+      console.error('Error exporting payroll:', error);
+      toast.error(error.message || 'Error exporting payroll');
+    }
+  };
+
+  const getAmount = (employeeId: string, category: EarningsCategory) =>
+    payroll.lines.find(line => line.employee.id === employeeId && line.category === category)?.amount || 0;
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <PageHeader subtitle="Payroll Export">
+        <Link
+          to="/"
+          className="text-gray-300 hover:text-white transition-colors flex items-center"
+        >
+          <ArrowLeft className="h-5 w-5 mr-2" />
+          Dashboard
+        </Link>
+      </PageHeader>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="flex items-center justify-between">
+          <PeriodFilter currentDate={currentDate} onDateChange={setCurrentDate} />
+          <button
+            onClick={handleExport}
+            disabled={!canExport}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export Payroll
+          </button>
+        </div>
+
+        <section className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-800">Totals Check</h2>
+            {payroll.balanced ? (
+              <span className="flex items-center text-sm text-green-700">
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Balanced
+              </span>
+            ) : (
+              <span className="flex items-center text-sm text-red-600">
+                <XCircle className="h-4 w-4 mr-1" />
+                Out of balance; export is disabled
+              </span>
+            )}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Salesperson</th>
+                  {categories.map(category => (
+                    <th key={category} className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                      {layout.earnings_codes[category]}
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Exported</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Earned</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {payroll.balances.length === 0 && (
+                  <tr>
+                    <td colSpan={categories.length + 4} className="px-3 py-4 text-center text-gray-500">
+                      No commissions earned in this period
+                    </td>
+                  </tr>
+                )}
+                {payroll.balances.map(({ employee, expected, exported, balanced }) => (
+                  <tr key={employee.id} className={balanced ? '' : 'bg-red-50'}>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      {employee.email}
+                      {employee.employee_number && (
+                        <span className="ml-2 text-gray-500">#{employee.employee_number}</span>
+                      )}
+                    </td>
+                    {categories.map(category => (
+                      <td key={category} className="px-3 py-2 text-right whitespace-nowrap">
+                        {formatMoney(getAmount(employee.id, category))}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-right font-medium whitespace-nowrap">{formatMoney(exported)}</td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">{formatMoney(expected)}</td>
+                    <td className="px-3 py-2">
+                      {balanced
+                        ? <CheckCircle className="h-4 w-4 text-green-600" />
+                        : <XCircle className="h-4 w-4 text-red-600" />}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50 font-semibold">
+                <tr>
+                  <td className="px-3 py-2">Total</td>
+                  {categories.map(category => (
+                    <td key={category} className="px-3 py-2 text-right whitespace-nowrap">
+                      {formatMoney(payroll.lines
+                        .filter(line => line.category === category)
+                        .reduce((sum, line) => sum + line.amount, 0))}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-right whitespace-nowrap">{formatMoney(payroll.total)}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    {formatMoney(payroll.balances.reduce((sum, balance) => sum + balance.expected, 0))}
+                  </td>
+                  <td />
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+          {submittedSpiffs.length > 0 && (
+            <p className="mt-4 text-sm text-amber-700">
+              {submittedSpiffs.length} spiff{submittedSpiffs.length === 1 ? '' : 's'} totalling{' '}
+              {formatMoney(submittedSpiffs.reduce((sum, spiff) => sum + Number(spiff.amount), 0))} still
+              {submittedSpiffs.length === 1 ? ' awaits' : ' await'} approval and{' '}
+              {submittedSpiffs.length === 1 ? 'is' : 'are'} not included.
+            </p>
+          )}
+          {layoutErrors.length > 0 && (
+            <ul className="mt-4 text-sm text-red-600 list-disc list-inside">
+              {layoutErrors.slice(0, 5).map(error => <li key={error}>{error}</li>)}
+              {layoutErrors.length > 5 && <li>{layoutErrors.length - 5} more</li>}
+            </ul>
+          )}
+        </section>
+
+        <section className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">
+            File Preview
+            {payroll.lines.length > PREVIEW_LINES && (
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                first {PREVIEW_LINES} of {payroll.lines.length} lines
+              </span>
+            )}
+          </h2>
+          <pre className="bg-gray-50 border border-gray-200 rounded-md p-4 text-xs overflow-x-auto">
+            {preview || 'Nothing to export'}
+          </pre>
+        </section>
+
+        <PayrollLayoutSettings layout={layout} onSaved={fetchLayout} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Check, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../hooks/useAuth';
+import { SpiffEntry, UserProfile, getSubmittedSpiffs, getTeamMembers, reviewSpiff } from '../lib/supabase';
+import { formatMoney } from '../lib/statement';
+import PageHeader from '../components/PageHeader';
+import RejectSpiffModal from '../components/RejectSpiffModal';
+import LoadingScreen from '../components/LoadingScreen';
+
+export default function SpiffReviews() {
+  const { session } = useAuth();
+  const [members, setMembers] = useState<UserProfile[]>([]);
+  const [spiffs, setSpiffs] = useState<SpiffEntry[]>([]);
+  const [rejecting, setRejecting] = useState<SpiffEntry | null>(null);
+  const [approvingId, setApprovingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchSpiffs();
+  }, [session?.user?.id]);
+
+  const fetchSpiffs = async () => {
+    if (!session?.user?.id) return;
+
+    try {
+      const team = await getTeamMembers(session.user.id);
+      setMembers(team);
+      setSpiffs(await getSubmittedSpiffs(team.map(member => member.id)));
+    } catch (error: any) {
+      console.error('Error fetching spiffs:', error);
+      toast.error('Error fetching spiffs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = async (spiff: SpiffEntry) => {
+    setApprovingId(spiff.id);
+    try {
+      await reviewSpiff(spiff.id, 'approved');
+      toast.success('Spiff approved');
+      setSpiffs(prev => prev.filter(item => item.id !== spiff.id));
+    } catch (error: any) {
+      console.error('Error approving spiff:', error);
+      toast.error(error.message || 'Error approving spiff');
+    } finally {
+      setApprovingId(null);
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  const emails = new Map(members.map(member => [member.id, member.email]));
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <PageHeader subtitle="Spiff Approvals">
+        <Link
+          to="/"
+          className="text-gray-300 hover:text-white transition-colors flex items-center"
+        >
+          <ArrowLeft className="h-5 w-5 mr-2" />
+          Dashboard
+        </Link>
+      </PageHeader>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4">
+        {spiffs.length === 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-500">
+            No spiffs are waiting for approval
+          </div>
+        )}
+        {spiffs.map(spiff => (
+          <div key={spiff.id} className="bg-white rounded-lg shadow-md p-6 flex items-start space-x-6">
+            {spiff.image_url ? (
+              <a href={spiff.image_url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+                <img
+                  src={spiff.image_url}
+                  alt="Spiff proof"
+                  className="h-32 w-32 object-cover rounded-md border border-gray-200"
+                />
+              </a>
+            ) : (
+              <div className="h-32 w-32 flex-shrink-0 flex items-center justify-center rounded-md border border-dashed border-gray-300 text-xs text-gray-400">
+                No proof image
+              </div>
+            )}
+            <div className="flex-1 space-y-1">
+              <p className="text-lg font-semibold text-gray-900">{formatMoney(Number(spiff.amount))}</p>
+              <p className="text-sm text-gray-600">{emails.get(spiff.user_id)}</p>
+              <p className="text-sm text-gray-500">{new Date(spiff.date).toLocaleDateString()}</p>
+              {spiff.note && <p className="text-sm text-gray-700 pt-2">{spiff.note}</p>}
+            </div>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setRejecting(spiff)}
+                disabled={approvingId === spiff.id}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Reject
+              </button>
+              <button
+                onClick={() => handleApprove(spiff)}
+                disabled={approvingId === spiff.id}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center"
+              >
+                <Check className="h-4 w-4 mr-2" />
+                Approve
+              </button>
+            </div>
+          </div>
+        ))}
+      </main>
+
+      <RejectSpiffModal
+        spiff={rejecting}
+        onClose={() => setRejecting(null)}
+        onRejected={fetchSpiffs}
+      />
+    </div>
+  );
+}
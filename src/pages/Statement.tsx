@@ -0,0 +1,271 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Download, Printer } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { useAuth } from '../hooks/useAuth';
+import { useCommissionPlans } from '../hooks/useCommissionPlans';
+import { usePayPeriod } from '../hooks/usePayPeriod';
+import { PeriodEntries, getPeriodEntries } from '../lib/supabase';
+import { EMPTY_PERIOD_ENTRIES } from '../lib/periodSummary';
+import { formatPayPeriod, getFetchRange, getPayPeriod, toDateRange } from '../lib/payPeriods';
+import { DealSubtotals, StatementDeal, buildStatement, formatMoney } from '../lib/statement';
+import { downloadStatementPdf } from '../lib/statementPdf';
+import PageHeader from '../components/PageHeader';
+import PeriodFilter from '../components/PeriodFilter';
+import LoadingScreen from '../components/LoadingScreen';
+
+const formatDay = (date: string) => format(new Date(`${date.split('T')[0]}T00:00:00`), 'MM/dd/yyyy');
+
+const cellClassName = 'px-3 py-2 text-sm text-gray-900 whitespace-nowrap';
+const amountClassName = `${cellClassName} text-right`;
+const headClassName = 'px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase';
+
+function DealTable({ deals, subtotal }: { deals: StatementDeal[]; subtotal?: DealSubtotals }) {
+  return (
+    <table className="min-w-full divide-y divide-gray-200">
+      <thead className="bg-gray-50">
+        <tr>
+          {['Date', 'Stock', 'Customer', 'Model', 'Type', 'Split', 'Car', 'Accessories', 'Warranty', 'Maintenance', 'Trade-In', 'Total']
+            .map(title => <th key={title} className={headClassName}>{title}</th>)}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {deals.length === 0 && (
+          <tr>
+            <td colSpan={12} className="px-3 py-4 text-sm text-gray-500 text-center">No deals</td>
+          </tr>
+        )}
+        {deals.map(({ sale, commissions, split }) => (
+          <tr key={sale.id}>
+            <td className={cellClassName}>{formatDay(sale.date)}</td>
+            <td className={cellClassName}>{sale.stock_number}</td>
+            <td className={cellClassName}>{sale.customer_name}</td>
+            <td className={cellClassName}>{sale.vehicle_model}</td>
+            <td className={cellClassName}>{sale.sale_type}</td>
+            <td className={cellClassName}>
+              {split ? `${split} (${commissions.creditedPercentage}%)` : '100%'}
+            </td>
+            <td className={amountClassName}>{formatMoney(commissions.carCommission)}</td>
+            <td className={amountClassName}>{formatMoney(commissions.accessoriesCommission)}</td>
+            <td className={amountClassName}>{formatMoney(commissions.warrantyCommission)}</td>
+            <td className={amountClassName}>{formatMoney(commissions.maintenanceCommission)}</td>
+            <td className={amountClassName}>{formatMoney(commissions.tradeInCommission)}</td>
+            <td className={`${amountClassName} font-medium`}>{formatMoney(commissions.totalCommission)}</td>
+          </tr>
+        ))}
+      </tbody>
+      {subtotal && (
+        <tfoot className="bg-gray-50 font-semibold">
+          <tr>
+            <td colSpan={6} className={cellClassName}>Subtotal</td>
+            <td className={amountClassName}>{formatMoney(subtotal.carCommission)}</td>
+            <td className={amountClassName}>{formatMoney(subtotal.accessoriesCommission)}</td>
+            <td className={amountClassName}>{formatMoney(subtotal.warrantyCommission)}</td>
+            <td className={amountClassName}>{formatMoney(subtotal.maintenanceCommission)}</td>
+            <td className={amountClassName}>{formatMoney(subtotal.tradeInCommission)}</td>
+            <td className={amountClassName}>{formatMoney(subtotal.totalCommission)}</td>
+          </tr>
+        </tfoot>
+      )}
+    </table>
+  );
+}
+
+export default function Statement() {
+  const { session } = useAuth();
+  const { plans } = useCommissionPlans();
+  const { definition } = usePayPeriod();
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [entries, setEntries] = useState<PeriodEntries>(EMPTY_PERIOD_ENTRIES);
+  const [loading, setLoading] = useState(true);
+  const period = useMemo(() => getPayPeriod(currentDate, definition), [currentDate, definition]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [period, session?.user?.id]);
+
+  const fetchEntries = async () => {
+    if (!session?.user?.id) return;
+
+    try {
+      const { startDate, endDate } = toDateRange(getFetchRange(period));
+      setEntries(await getPeriodEntries(session.user.id, startDate, endDate));
+    } catch (error: any) {
+      console.error('Error fetching statement data:', error);
+      toast.error('Error fetching statement data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  const statement = buildStatement(entries, period, plans, {
+    userId: session?.user.id,
+    salesperson: session?.user.email || '',
+    periodLabel: formatPayPeriod(period, definition),
+  });
+  const { summary } = statement;
+
+  return (
+    <div className="min-h-screen bg-gray-100 print:bg-white">
+      <PageHeader subtitle="Commission Statement">
+        <Link
+          to="/"
+          className="text-gray-300 hover:text-white transition-colors flex items-center"
+        >
+          <ArrowLeft className="h-5 w-5 mr-2" />
+          Dashboard
+        </Link>
+      </PageHeader>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:p-0 print:max-w-none">
+        <div className="flex items-center justify-between mb-6 print:hidden">
+          <PeriodFilter currentDate={currentDate} onDateChange={setCurrentDate} />
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => window.print()}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 flex items-center"
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Print
+            </button>
+            <button
+              onClick={() => downloadStatementPdf(statement)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download PDF
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-8 print:shadow-none print:p-0">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Daly City Mitsubishi — Commission Statement</h2>
+            <p className="text-sm text-gray-600">
+              {statement.salesperson} · {statement.periodLabel}
+            </p>
+          </div>
+
+          <section>
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">Funded Deals</h3>
+            <div className="overflow-x-auto">
+              <DealTable deals={statement.fundedDeals} subtotal={statement.dealSubtotals} />
+            </div>
+          </section>
+
+          <section className="break-inside-avoid">
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">Spiffs</h3>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headClassName}>Date</th>
+                  <th className={headClassName}>Note</th>
+                  <th className={`${headClassName} text-right`}>Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {statement.spiffs.length === 0 && (
+                  <tr>
+                    <td colSpan={3} className="px-3 py-4 text-sm text-gray-500 text-center">No spiffs</td>
+                  </tr>
+                )}
+                {statement.spiffs.map(spiff => (
+                  <tr key={spiff.id}>
+                    <td className={cellClassName}>{formatDay(spiff.date)}</td>
+                    <td className="px-3 py-2 text-sm text-gray-900">{spiff.note}</td>
+                    <td className={amountClassName}>{formatMoney(Number(spiff.amount))}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50 font-semibold">
+                <tr>
+                  <td colSpan={2} className={cellClassName}>Subtotal</td>
+                  <td className={amountClassName}>{formatMoney(summary.spiffTotal)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </section>
+
+          {statement.chargebacks.length > 0 && (
+            <section className="break-inside-avoid">
+              <h3 className="text-lg font-semibold text-gray-800 mb-2">Chargebacks</h3>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className={headClassName}>Date</th>
+                    <th className={headClassName}>Stock</th>
+                    <th className={headClassName}>Customer</th>
+                    <th className={headClassName}>Reason</th>
+                    <th className={`${headClassName} text-right`}>Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {statement.chargebacks.map(chargeback => (
+                    <tr key={chargeback.id}>
+                      <td className={cellClassName}>{formatDay(chargeback.date)}</td>
+                      <td className={cellClassName}>{chargeback.sales?.stock_number}</td>
+                      <td className={cellClassName}>{chargeback.sales?.customer_name}</td>
+                      <td className="px-3 py-2 text-sm text-gray-900">{chargeback.reason}</td>
+                      <td className={amountClassName}>{formatMoney(Number(chargeback.amount))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="bg-gray-50 font-semibold">
+                  <tr>
+                    <td colSpan={4} className={cellClassName}>Subtotal</td>
+                    <td className={amountClassName}>{formatMoney(summary.chargebackTotal)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </section>
+          )}
+
+          <section className="max-w-md ml-auto break-inside-avoid">
+            <dl className="divide-y divide-gray-200 text-sm">
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-600">Funded deals</dt>
+                <dd>{formatMoney(summary.dealCommissions)}</dd>
+              </div>
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-600">Spiffs</dt>
+                <dd>{formatMoney(summary.spiffTotal)}</dd>
+              </div>
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-600">
+                  Volume bonus ({summary.volumeBonus.units} units
+                  {summary.volumeBonus.paidInPeriod ? '' : ', paid at month end'})
+                </dt>
+                <dd>{formatMoney(summary.volumeBonus.bonus)}</dd>
+              </div>
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-600">Chargebacks</dt>
+                <dd>{formatMoney(summary.chargebackTotal)}</dd>
+              </div>
+              <div className="flex justify-between py-2 text-base font-bold">
+                <dt>Grand Total</dt>
+                <dd>{formatMoney(statement.grandTotal)}</dd>
+              </div>
+            </dl>
+          </section>
+
+          {statement.pendingDeals.length > 0 && (
+            <section>
+              <h3 className="text-lg font-semibold text-gray-800 mb-2">Pending Deals</h3>
+              <p className="text-sm text-gray-500 mb-2">
+                Awaiting delivery or funding; not included in the total.
+              </p>
+              <div className="overflow-x-auto">
+                <DealTable deals={statement.pendingDeals} />
+              </div>
+            </section>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
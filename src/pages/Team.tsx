@@ -0,0 +1,180 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ChevronRight } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../hooks/useAuth';
+import { useCommissionPlans } from '../hooks/useCommissionPlans';
+import { usePayPeriod } from '../hooks/usePayPeriod';
+import { PeriodEntries, UserProfile, getTeamEntries, getTeamMembers } from '../lib/supabase';
+import { EMPTY_PERIOD_ENTRIES, filterEntriesByPeriod, getUserEntries, summarizePeriod } from '../lib/periodSummary';
+import { getFetchRange, getPayPeriod, toDateRange } from '../lib/payPeriods';
+import { formatMoney } from '../lib/statement';
+import PageHeader from '../components/PageHeader';
+import PeriodFilter from '../components/PeriodFilter';
+import SalesGrid from '../components/SalesGrid';
+import LoadingScreen from '../components/LoadingScreen';
+
+const headClassName = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const amountClassName = 'px-4 py-3 text-right whitespace-nowrap';
+
+export default function Team() {
+  const { session } = useAuth();
+  const { plans } = useCommissionPlans();
+  const { definition } = usePayPeriod();
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [members, setMembers] = useState<UserProfile[]>([]);
+  const [entries, setEntries] = useState<PeriodEntries>(EMPTY_PERIOD_ENTRIES);
+  const [selectedMemberId, setSelectedMemberId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const period = useMemo(() => getPayPeriod(currentDate, definition), [currentDate, definition]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [session?.user?.id]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [members, period]);
+
+  const fetchMembers = async () => {
+    if (!session?.user?.id) return;
+
+    try {
+      setMembers(await getTeamMembers(session.user.id));
+    } catch (error: any) {
+      console.error('Error fetching team:', error);
+      toast.error('Error fetching team');
+      setLoading(false);
+    }
+  };
+
+  const fetchEntries = async () => {
+    try {
+      const { startDate, endDate } = toDateRange(getFetchRange(period));
+      setEntries(await getTeamEntries(members.map(member => member.id), startDate, endDate));
+    } catch (error: any) {
+      console.error('Error fetching team sales:', error);
+      toast.error('Error fetching team sales');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  const rows = members.map(member => ({
+    member,
+    summary: summarizePeriod(getUserEntries(entries, member.id), period, plans, member.id),
+  }));
+
+  // Deals shared inside the team would be counted twice if gross were summed per person
+  const memberIds = new Set(members.map(member => member.id));
+  const teamGross = filterEntriesByPeriod(entries, period).sales
+    .filter(sale => memberIds.has(sale.user_id) && sale.deal_status !== 'cancelled')
+    .reduce((sum, sale) => sum + sale.sale_price, 0);
+  const sumOf = (pick: (summary: (typeof rows)[number]['summary']) => number) =>
+    rows.reduce((sum, row) => sum + pick(row.summary), 0);
+
+  const selectedMember = members.find(member => member.id === selectedMemberId);
+  const emails = new Map(members.map(member => [member.id, member.email]));
+  const selectedEntries = selectedMember
+    ? filterEntriesByPeriod(getUserEntries(entries, selectedMember.id), period)
+    : EMPTY_PERIOD_ENTRIES;
+  const selectedSales = selectedEntries.sales.map(sale =>
+    sale.user_id !== selectedMember?.id && emails.has(sale.user_id)
+      ? { ...sale, seller_email: emails.get(sale.user_id) }
+      : sale
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <PageHeader subtitle="Team Dashboard">
+        <Link
+          to="/"
+          className="text-gray-300 hover:text-white transition-colors flex items-center"
+        >
+          <ArrowLeft className="h-5 w-5 mr-2" />
+          Dashboard
+        </Link>
+      </PageHeader>
+
+      <main className="max-w-[110%] mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <PeriodFilter currentDate={currentDate} onDateChange={setCurrentDate} />
+
+        <section className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headClassName}>Salesperson</th>
+                <th className={`${headClassName} text-right`}>Units</th>
+                <th className={`${headClassName} text-right`}>Pending Units</th>
+                <th className={`${headClassName} text-right`}>Gross</th>
+                <th className={`${headClassName} text-right`}>Earned Commissions</th>
+                <th className={`${headClassName} text-right`}>Pending Commissions</th>
+                <th className={`${headClassName} text-right`}>Spiffs</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-4 py-6 text-center text-gray-500">
+                    No salespeople are assigned to your team yet
+                  </td>
+                </tr>
+              )}
+              {rows.map(({ member, summary }) => (
+                <tr
+                  key={member.id}
+                  onClick={() => setSelectedMemberId(member.id === selectedMemberId ? null : member.id)}
+                  className={`cursor-pointer hover:bg-gray-50 ${member.id === selectedMemberId ? 'bg-blue-50' : ''}`}
+                >
+                  <td className="px-4 py-3 whitespace-nowrap font-medium text-gray-900">{member.email}</td>
+                  <td className={amountClassName}>{summary.units}</td>
+                  <td className={amountClassName}>{summary.pendingUnits}</td>
+                  <td className={amountClassName}>{formatMoney(summary.totalSales)}</td>
+                  <td className={amountClassName}>{formatMoney(summary.earnedCommissions)}</td>
+                  <td className={amountClassName}>{formatMoney(summary.pendingCommissions)}</td>
+                  <td className={amountClassName}>{formatMoney(summary.spiffTotal)}</td>
+                  <td className="px-4 py-3 text-gray-400">
+                    <ChevronRight className={`h-4 w-4 transition-transform ${member.id === selectedMemberId ? 'rotate-90' : ''}`} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            {rows.length > 0 && (
+              <tfoot className="bg-gray-50 font-semibold">
+                <tr>
+                  <td className="px-4 py-3">Team</td>
+                  <td className={amountClassName}>{sumOf(summary => summary.units)}</td>
+                  <td className={amountClassName}>{sumOf(summary => summary.pendingUnits)}</td>
+                  <td className={amountClassName}>{formatMoney(teamGross)}</td>
+                  <td className={amountClassName}>{formatMoney(sumOf(summary => summary.earnedCommissions))}</td>
+                  <td className={amountClassName}>{formatMoney(sumOf(summary => summary.pendingCommissions))}</td>
+                  <td className={amountClassName}>{formatMoney(sumOf(summary => summary.spiffTotal))}</td>
+                  <td />
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </section>
+
+        {selectedMember && (
+          <section className="bg-white rounded-lg shadow-md">
+            <h2 className="px-6 pt-4 text-lg font-semibold text-gray-800">{selectedMember.email}</h2>
+            <SalesGrid
+              sales={selectedSales}
+              spiffs={selectedEntries.spiffs}
+              chargebacks={selectedEntries.chargebacks}
+              period={period}
+              userId={selectedMember.id}
+              readOnly
+            />
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
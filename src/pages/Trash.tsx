@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, RotateCcw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { useAuth } from '../hooks/useAuth';
+import {
+  SaleEntry,
+  SpiffEntry,
+  TRASH_RETENTION_DAYS,
+  TrashTable,
+  getTrash,
+  restoreFromTrash,
+} from '../lib/supabase';
+import { formatMoney } from '../lib/statement';
+import PageHeader from '../components/PageHeader';
+import LoadingScreen from '../components/LoadingScreen';
+
+interface TrashItem {
+  table: TrashTable;
+  id: string;
+  deletedAt: string;
+  date: string;
+  type: string;
+  description: string;
+  amount: number;
+}
+
+const headClassName = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+const toItems = (sales: SaleEntry[], spiffs: SpiffEntry[]): TrashItem[] => [
+  ...sales.map(sale => ({
+    table: 'sales' as const,
+    id: sale.id,
+    deletedAt: sale.deleted_at!,
+    date: sale.date,
+    type: sale.sale_type,
+    description: `Stock #${sale.stock_number} · ${sale.customer_name}`,
+    amount: sale.sale_price,
+  })),
+  ...spiffs.map(spiff => ({
+    table: 'spiffs' as const,
+    id: spiff.id,
+    deletedAt: spiff.deleted_at!,
+    date: spiff.date,
+    type: 'Spiff',
+    description: spiff.note || '',
+    amount: Number(spiff.amount),
+  })),
+].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+export default function Trash() {
+  const { session } = useAuth();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [session?.user?.id]);
+
+  const fetchTrash = async () => {
+    if (!session?.user?.id) return;
+
+    try {
+      const { sales, spiffs } = await getTrash(session.user.id);
+      setItems(toItems(sales, spiffs));
+    } catch (error: any) {
+      console.error('Error fetching trash:', error);
+      toast.error('Error fetching trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setRestoringId(item.id);
+    try {
+      await restoreFromTrash(item.table, item.id);
+      toast.success(`${item.table === 'sales' ? 'Sale' : 'Spiff'} restored`);
+      setItems(prev => prev.filter(other => other.id !== item.id));
+    } catch (error: any) {
+      console.error('Error restoring entry:', error);
+      toast.error(error.message || 'Error restoring entry');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <PageHeader subtitle="Trash">
+        <Link
+          to="/"
+          className="text-gray-300 hover:text-white transition-colors flex items-center"
+        >
+          <ArrowLeft className="h-5 w-5 mr-2" />
+          Dashboard
+        </Link>
+      </PageHeader>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4">
+        <p className="text-sm text-gray-600">
+          Deleted sales and spiffs can be restored for {TRASH_RETENTION_DAYS} days, then they're removed permanently.
+          Restoring a sale also brings back its chargebacks and incentive spiffs.
+        </p>
+
+        <section className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headClassName}>Deleted</th>
+                <th className={headClassName}>Date Sold</th>
+                <th className={headClassName}>Type</th>
+                <th className={headClassName}>Entry</th>
+                <th className={`${headClassName} text-right`}>Amount</th>
+                <th className={headClassName}>Purged In</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {items.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-4 py-6 text-center text-gray-500">
+                    The trash is empty
+                  </td>
+                </tr>
+              )}
+              {items.map(item => {
+                const daysLeft = Math.max(0, differenceInCalendarDays(
+                  addDays(new Date(item.deletedAt), TRASH_RETENTION_DAYS),
+                  new Date()
+                ));
+                return (
+                  <tr key={item.id}>
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                      {format(new Date(item.deletedAt), 'MM/dd/yyyy h:mm a')}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                      {format(new Date(item.date), 'MM/dd/yyyy')}
+                    </td>
+                    <td className="px-4 py-3">{item.type}</td>
+                    <td className="px-4 py-3 text-gray-900">{item.description}</td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">{formatMoney(item.amount)}</td>
+                    <td className={`px-4 py-3 whitespace-nowrap ${daysLeft <= 3 ? 'text-red-600' : 'text-gray-600'}`}>
+                      {daysLeft} day{daysLeft === 1 ? '' : 's'}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => handleRestore(item)}
+                        disabled={restoringId === item.id}
+                        className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 inline-flex items-center"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      </main>
+    </div>
+  );
+}
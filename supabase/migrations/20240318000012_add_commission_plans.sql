@@ -0,0 +1,92 @@
+-- Commission plans stored as data with an effective date range
+CREATE TABLE IF NOT EXISTS public.commission_plans (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  effective_from date NOT NULL,
+  effective_to date,
+  rules jsonb NOT NULL,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  CONSTRAINT commission_plans_effective_range_check CHECK (
+    effective_to IS NULL OR effective_to >= effective_from
+  )
+);
+
+-- Only managers publish pay plans. Roles are set by an administrator in the
+-- Supabase dashboard.
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'salesperson'
+  CHECK (role IN ('salesperson', 'manager'));
+
+-- Security definer so policies on public.users don't recurse into themselves
+CREATE OR REPLACE FUNCTION is_manager()
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = auth.uid() AND role = 'manager'
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Enable RLS on commission plans
+ALTER TABLE public.commission_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view commission plans"
+  ON public.commission_plans FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can publish commission plans"
+  ON public.commission_plans FOR INSERT
+  WITH CHECK (is_manager() AND auth.uid() = created_by);
+
+-- Publishing a plan closes the plan that was open on its effective date,
+-- so past sales keep being computed under the rules they were sold under.
+-- Plans can't start in the past, which would re-price paid months.
+CREATE OR REPLACE FUNCTION close_previous_commission_plan()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.effective_from < current_date THEN
+    RAISE EXCEPTION 'A commission plan can''t take effect before today';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.commission_plans
+    WHERE effective_from >= NEW.effective_from
+  ) THEN
+    RAISE EXCEPTION 'A commission plan already starts on or after %', NEW.effective_from;
+  END IF;
+
+  UPDATE public.commission_plans
+  SET effective_to = NEW.effective_from - 1
+  WHERE effective_to IS NULL OR effective_to >= NEW.effective_from;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE INDEX IF NOT EXISTS idx_commission_plans_effective_from ON public.commission_plans(effective_from);
+
+-- Seed the plan that was previously hardcoded in the app, ahead of the
+-- trigger since it covers every past sale
+INSERT INTO public.commission_plans (name, effective_from, rules)
+VALUES (
+  'Standard pay plan',
+  '2000-01-01',
+  '{
+    "car_tiers": [
+      { "min_price": 0, "amount": 200 },
+      { "min_price": 10000, "amount": 300 },
+      { "min_price": 20000, "amount": 400 },
+      { "min_price": 30000, "amount": 500 }
+    ],
+    "accessories": { "new_threshold": 988, "used_threshold": 488, "min_excess": 800, "amount": 100 },
+    "warranty": { "profit_step": 1000, "amount_per_step": 100 },
+    "maintenance": { "min_price": 800, "amount": 100 }
+  }'::jsonb
+);
+
+CREATE TRIGGER on_commission_plan_published
+  BEFORE INSERT ON public.commission_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION close_previous_commission_plan();
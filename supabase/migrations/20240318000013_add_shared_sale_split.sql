@@ -0,0 +1,8 @@
+-- Percentage of a shared sale's commission credited to the recipient
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS shared_percentage numeric(5,2) DEFAULT 50
+  CHECK (shared_percentage > 0 AND shared_percentage < 100);
+
+UPDATE public.sales
+SET shared_percentage = 50
+WHERE shared_with_id IS NOT NULL AND shared_percentage IS NULL;
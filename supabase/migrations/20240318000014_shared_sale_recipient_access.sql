@@ -0,0 +1,37 @@
+-- Function to get a user's email from their ID
+CREATE OR REPLACE FUNCTION get_user_email_from_id(user_uuid uuid)
+RETURNS text AS $$
+BEGIN
+  RETURN (
+    SELECT email
+    FROM auth.users
+    WHERE id = user_uuid
+    LIMIT 1
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recipients may respond to a share, but nothing else on the sale is theirs to change
+DROP POLICY IF EXISTS "Recipients can respond to sales shared with them" ON public.sales;
+CREATE POLICY "Recipients can respond to sales shared with them"
+  ON public.sales FOR UPDATE
+  USING (auth.uid() = shared_with_id);
+
+CREATE OR REPLACE FUNCTION restrict_shared_sale_recipient_update()
+RETURNS trigger AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM OLD.user_id AND auth.uid() = OLD.shared_with_id THEN
+    IF (to_jsonb(NEW) - 'shared_status' - 'updated_at') IS DISTINCT FROM
+       (to_jsonb(OLD) - 'shared_status' - 'updated_at') THEN
+      RAISE EXCEPTION 'Shared sale recipients can only respond to the share';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_shared_sale_recipient_update ON public.sales;
+CREATE TRIGGER on_shared_sale_recipient_update
+  BEFORE UPDATE ON public.sales
+  FOR EACH ROW
+  EXECUTE FUNCTION restrict_shared_sale_recipient_update();
@@ -0,0 +1,10 @@
+-- Monthly unit-volume bonus tiers are part of the pay plan
+UPDATE public.commission_plans
+SET rules = rules || '{
+  "volume_bonus_tiers": [
+    { "min_units": 10, "amount": 500 },
+    { "min_units": 15, "amount": 1000 },
+    { "min_units": 20, "amount": 2000 }
+  ]
+}'::jsonb
+WHERE NOT rules ? 'volume_bonus_tiers';
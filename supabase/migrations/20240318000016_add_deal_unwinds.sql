@@ -0,0 +1,120 @@
+-- Unwound deals keep their original record
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS unwound_at date,
+ADD COLUMN IF NOT EXISTS unwind_reason text;
+
+-- Chargebacks deduct an unwound deal's commission in the month of the unwind
+CREATE TABLE IF NOT EXISTS public.chargebacks (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  sale_id uuid REFERENCES public.sales(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  amount numeric(10,2) NOT NULL CHECK (amount <= 0),
+  units numeric(6,4) NOT NULL DEFAULT 0 CHECK (units <= 0),
+  reason text,
+  date date NOT NULL,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  CONSTRAINT chargebacks_sale_user_unique UNIQUE (sale_id, user_id)
+);
+
+-- Enable RLS on chargebacks
+ALTER TABLE public.chargebacks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chargebacks"
+  ON public.chargebacks FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_chargebacks_user_id ON public.chargebacks(user_id);
+CREATE INDEX IF NOT EXISTS idx_chargebacks_date ON public.chargebacks(date);
+
+-- Commission credited for a percentage of a sale under the plan in force on
+-- its date, the same way calculateCommissions works it out in the app: each
+-- part is credited and rounded to the cent on its own
+CREATE OR REPLACE FUNCTION get_credited_commission(s public.sales, percentage numeric)
+RETURNS numeric AS $$
+DECLARE
+  rules jsonb;
+  car numeric;
+  accessories numeric := 0;
+  warranty numeric := 0;
+  maintenance numeric := 0;
+BEGIN
+  SELECT p.rules INTO rules
+  FROM public.commission_plans p
+  WHERE p.effective_from <= s.date AND (p.effective_to IS NULL OR p.effective_to >= s.date)
+  ORDER BY p.effective_from DESC
+  LIMIT 1;
+
+  -- Dates before any plan fall back to the standard plan seeded first
+  IF rules IS NULL THEN
+    SELECT p.rules INTO rules FROM public.commission_plans p ORDER BY p.effective_from LIMIT 1;
+  END IF;
+
+  SELECT COALESCE((
+    SELECT (t ->> 'amount')::numeric
+    FROM jsonb_array_elements(rules -> 'car_tiers') AS t
+    WHERE s.sale_price >= (t ->> 'min_price')::numeric
+    ORDER BY (t ->> 'min_price')::numeric DESC
+    LIMIT 1
+  ), 0) INTO car;
+
+  IF COALESCE(s.accessories_price, 0) > 0 AND s.accessories_price - (rules -> 'accessories' ->> (
+    CASE WHEN s.sale_type = 'New' THEN 'new_threshold' ELSE 'used_threshold' END
+  ))::numeric > (rules -> 'accessories' ->> 'min_excess')::numeric THEN
+    accessories := (rules -> 'accessories' ->> 'amount')::numeric;
+  END IF;
+
+  IF COALESCE(s.warranty_price, 0) > 0 AND COALESCE(s.warranty_cost, 0) > 0
+     AND (rules -> 'warranty' ->> 'profit_step')::numeric > 0 THEN
+    warranty := floor((s.warranty_price - s.warranty_cost) / (rules -> 'warranty' ->> 'profit_step')::numeric)
+      * (rules -> 'warranty' ->> 'amount_per_step')::numeric;
+  END IF;
+
+  IF COALESCE(s.maintenance_price, 0) > (rules -> 'maintenance' ->> 'min_price')::numeric THEN
+    maintenance := (rules -> 'maintenance' ->> 'amount')::numeric;
+  END IF;
+
+  -- floor(x + 0.5) rounds halves up like Math.round
+  RETURN (
+    SELECT sum(floor(amount * percentage + 0.5) / 100)
+    FROM unnest(ARRAY[car, accessories, warranty, maintenance, COALESCE(s.trade_in_commission, 0)]) AS amount
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Everyone credited on a sale and their percentage. A share counts once it's
+-- accepted; until then the seller is credited for it.
+CREATE OR REPLACE FUNCTION get_sale_credits(sale uuid)
+RETURNS TABLE (user_id uuid, percentage numeric) AS $$
+  SELECT s.user_id, 100 - CASE WHEN s.shared_status = 'accepted' THEN COALESCE(s.shared_percentage, 50) ELSE 0 END
+  FROM public.sales s
+  WHERE s.id = sale
+  UNION ALL
+  SELECT s.shared_with_id, COALESCE(s.shared_percentage, 50)
+  FROM public.sales s
+  WHERE s.id = sale AND s.shared_status = 'accepted' AND s.shared_with_id IS NOT NULL
+$$ LANGUAGE sql STABLE;
+
+-- Stamps the unwind and charges back what everyone on the deal was credited,
+-- in one transaction, so a deal is never left unwound without its deductions.
+-- Security definer so the amounts are worked out here rather than taken from
+-- the client; only the seller can unwind their sale.
+CREATE OR REPLACE FUNCTION unwind_sale(sale uuid, unwind_date date, reason text)
+RETURNS void AS $$
+DECLARE
+  unwound public.sales;
+BEGIN
+  UPDATE public.sales
+  SET unwound_at = unwind_date, unwind_reason = reason
+  WHERE id = sale AND user_id = auth.uid() AND date <= unwind_date AND unwound_at IS NULL
+  RETURNING * INTO unwound;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This sale can''t be unwound';
+  END IF;
+
+  INSERT INTO public.chargebacks (sale_id, user_id, amount, units, reason, date)
+  SELECT sale, c.user_id, -get_credited_commission(unwound, c.percentage), -c.percentage / 100, reason, unwind_date
+  FROM get_sale_credits(sale) AS c
+  WHERE c.percentage > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,80 @@
+-- Deal lifecycle: pending delivery -> delivered -> funded, or cancelled
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS deal_status text NOT NULL DEFAULT 'pending_delivery'
+  CHECK (deal_status IN ('pending_delivery', 'delivered', 'funded', 'cancelled')),
+ADD COLUMN IF NOT EXISTS delivered_at timestamp with time zone,
+ADD COLUMN IF NOT EXISTS funded_at timestamp with time zone,
+ADD COLUMN IF NOT EXISTS cancelled_at timestamp with time zone;
+
+-- Deals entered before statuses existed have already been paid
+UPDATE public.sales
+SET deal_status = 'funded',
+    delivered_at = created_at,
+    funded_at = created_at;
+
+-- Stamp the time each status was reached and clear the ones a deal moved
+-- back from. Funded commission has been paid, so a funded deal only comes
+-- off the books through an unwind.
+CREATE OR REPLACE FUNCTION handle_deal_status_change()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.deal_status IS DISTINCT FROM OLD.deal_status THEN
+    IF OLD.deal_status = 'funded' THEN
+      RAISE EXCEPTION 'A funded deal can''t change status; unwind it instead';
+    END IF;
+    IF NEW.deal_status = 'pending_delivery' THEN
+      NEW.delivered_at := NULL;
+    END IF;
+    IF NEW.deal_status <> 'funded' THEN
+      NEW.funded_at := NULL;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.deal_status IS DISTINCT FROM OLD.deal_status THEN
+    IF NEW.deal_status IN ('delivered', 'funded') AND NEW.delivered_at IS NULL THEN
+      NEW.delivered_at := now();
+    END IF;
+    IF NEW.deal_status = 'funded' AND NEW.funded_at IS NULL THEN
+      NEW.funded_at := now();
+    END IF;
+    IF NEW.deal_status = 'cancelled' THEN
+      NEW.cancelled_at := now();
+    ELSE
+      NEW.cancelled_at := NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_deal_status_change ON public.sales;
+CREATE TRIGGER on_deal_status_change
+  BEFORE INSERT OR UPDATE OF deal_status
+  ON public.sales
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_deal_status_change();
+
+CREATE INDEX IF NOT EXISTS idx_sales_deal_status ON public.sales(deal_status);
+
+-- Only funded deals have been paid, so only they can be unwound
+CREATE OR REPLACE FUNCTION unwind_sale(sale uuid, unwind_date date, reason text)
+RETURNS void AS $$
+DECLARE
+  unwound public.sales;
+BEGIN
+  UPDATE public.sales
+  SET unwound_at = unwind_date, unwind_reason = reason
+  WHERE id = sale AND user_id = auth.uid() AND deal_status = 'funded'
+    AND date <= unwind_date AND unwound_at IS NULL
+  RETURNING * INTO unwound;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only a funded sale that hasn''t been unwound can be unwound';
+  END IF;
+
+  INSERT INTO public.chargebacks (sale_id, user_id, amount, units, reason, date)
+  SELECT sale, c.user_id, -get_credited_commission(unwound, c.percentage), -c.percentage / 100, reason, unwind_date
+  FROM get_sale_credits(sale) AS c
+  WHERE c.percentage > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,29 @@
+-- Store-wide settings such as the payroll pay period
+CREATE TABLE IF NOT EXISTS public.app_settings (
+  key text PRIMARY KEY,
+  value jsonb NOT NULL,
+  updated_by uuid REFERENCES auth.users(id),
+  updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Enable RLS on app settings
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view app settings"
+  ON public.app_settings FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+-- Settings apply to everyone, so only managers change them
+CREATE POLICY "Managers can update app settings"
+  ON public.app_settings FOR UPDATE
+  USING (is_manager());
+
+CREATE TRIGGER handle_app_settings_updated_at
+  BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+-- Pay periods default to calendar months
+INSERT INTO public.app_settings (key, value)
+VALUES ('pay_period', '{ "type": "monthly" }'::jsonb)
+ON CONFLICT (key) DO NOTHING;
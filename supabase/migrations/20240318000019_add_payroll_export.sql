@@ -0,0 +1,75 @@
+-- Payroll system employee numbers; exports fall back to the email when unset
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS employee_number text;
+
+-- Every salesperson's entries for a payroll run, which row level security
+-- would otherwise limit to the caller's own. Payroll covers everyone, so
+-- only managers may run it. Deals are paid when they're funded, so sales
+-- from before the run that were funded during it come along too.
+CREATE OR REPLACE FUNCTION get_payroll_entries(start_date date, end_date date)
+RETURNS jsonb AS $$
+BEGIN
+  IF NOT is_manager() THEN
+    RAISE EXCEPTION 'Only managers can run payroll';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'employees', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', u.id,
+        'email', u.email,
+        'employee_number', u.employee_number
+      ) ORDER BY u.email)
+      FROM public.users u
+    ), '[]'::jsonb),
+    'sales', COALESCE((
+      SELECT jsonb_agg(to_jsonb(s))
+      FROM public.sales s
+      WHERE s.date <= end_date
+        AND (s.date >= start_date OR s.funded_at >= start_date)
+    ), '[]'::jsonb),
+    'spiffs', COALESCE((
+      SELECT jsonb_agg(to_jsonb(sp))
+      FROM public.spiffs sp
+      WHERE sp.date BETWEEN start_date AND end_date
+    ), '[]'::jsonb),
+    'chargebacks', COALESCE((
+      SELECT jsonb_agg(to_jsonb(c) || jsonb_build_object('sales', jsonb_build_object(
+        'stock_number', s.stock_number,
+        'customer_name', s.customer_name,
+        'sale_type', s.sale_type
+      )))
+      FROM public.chargebacks c
+      JOIN public.sales s ON s.id = c.sale_id
+      WHERE c.date BETWEEN start_date AND end_date
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Default export layout: one CSV line per salesperson per earnings code
+INSERT INTO public.app_settings (key, value)
+VALUES ('payroll_layout', '{
+  "format": "csv",
+  "delimiter": ",",
+  "include_header": true,
+  "amount_format": "decimal",
+  "date_format": "MM/dd/yyyy",
+  "columns": [
+    { "field": "employee_number", "header": "EmployeeID", "width": 10 },
+    { "field": "employee_name", "header": "Name", "width": 30 },
+    { "field": "earnings_code", "header": "EarnCode", "width": 6 },
+    { "field": "amount", "header": "Amount", "width": 12 },
+    { "field": "period_start", "header": "PeriodStart", "width": 10 },
+    { "field": "period_end", "header": "PeriodEnd", "width": 10 }
+  ],
+  "earnings_codes": {
+    "car": "COMM",
+    "fi": "FI",
+    "spiff": "SPIFF",
+    "trade_in": "TRADE",
+    "bonus": "BONUS",
+    "chargeback": "CHGBK"
+  }
+}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,37 @@
+-- Sales managers see their team's numbers. Team assignments are set by an
+-- administrator in the Supabase dashboard, like roles.
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS manager_id uuid REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS users_manager_id_idx ON public.users(manager_id);
+
+-- Security definer so policies on public.users don't recurse into themselves
+CREATE OR REPLACE FUNCTION is_manager_of(user_uuid uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = user_uuid AND manager_id = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Managers can read their team; salespeople still only see themselves
+CREATE POLICY "Managers can view their team"
+  ON public.users FOR SELECT
+  USING (manager_id = auth.uid());
+
+CREATE POLICY "Managers can view their team's sales"
+  ON public.sales FOR SELECT
+  USING (
+    is_manager_of(user_id) OR
+    (shared_status = 'accepted' AND is_manager_of(shared_with_id))
+  );
+
+CREATE POLICY "Managers can view their team's spiffs"
+  ON public.spiffs FOR SELECT
+  USING (is_manager_of(user_id));
+
+CREATE POLICY "Managers can view their team's chargebacks"
+  ON public.chargebacks FOR SELECT
+  USING (is_manager_of(user_id));
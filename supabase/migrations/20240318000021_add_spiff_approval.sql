@@ -0,0 +1,83 @@
+-- Spiffs are reviewed by a manager before they're paid. Spiffs entered before
+-- the workflow existed were already paid, so they start out approved.
+ALTER TABLE public.spiffs
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'approved'
+  CHECK (status IN ('submitted', 'approved', 'rejected')),
+ADD COLUMN IF NOT EXISTS rejection_reason text,
+ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS reviewed_at timestamptz;
+
+ALTER TABLE public.spiffs ALTER COLUMN status SET DEFAULT 'submitted';
+
+CREATE INDEX IF NOT EXISTS idx_spiffs_status ON public.spiffs(status);
+
+CREATE POLICY "Managers can review their team's spiffs"
+  ON public.spiffs FOR UPDATE
+  USING (is_manager_of(user_id));
+
+-- Salespeople can't approve their own spiffs, and any change they make sends
+-- the spiff back to their manager
+CREATE OR REPLACE FUNCTION handle_spiff_review()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NOT is_manager_of(NEW.user_id) THEN
+    IF TG_OP = 'INSERT' OR
+       NEW.amount IS DISTINCT FROM OLD.amount OR
+       NEW.date IS DISTINCT FROM OLD.date OR
+       NEW.note IS DISTINCT FROM OLD.note OR
+       NEW.image_url IS DISTINCT FROM OLD.image_url OR
+       NEW.status IS DISTINCT FROM OLD.status THEN
+      NEW.status := 'submitted';
+      NEW.rejection_reason := NULL;
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+    IF NEW.status <> 'rejected' THEN
+      NEW.rejection_reason := NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_spiff_review
+  BEFORE INSERT OR UPDATE ON public.spiffs
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_spiff_review();
+
+-- Notifications can now point at a spiff instead of a sale
+ALTER TABLE public.notifications
+ALTER COLUMN sale_id DROP NOT NULL,
+ADD COLUMN IF NOT EXISTS spiff_id uuid REFERENCES public.spiffs(id) ON DELETE CASCADE;
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'shared_sale_pending',
+  'shared_sale_accepted',
+  'shared_sale_rejected',
+  'spiff_approved',
+  'spiff_rejected'
+)),
+ADD CONSTRAINT notifications_subject_check CHECK (sale_id IS NOT NULL OR spiff_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_spiff_id ON public.notifications(spiff_id);
+
+CREATE OR REPLACE FUNCTION handle_spiff_status_change()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IN ('approved', 'rejected') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.notifications (user_id, spiff_id, type)
+    VALUES (NEW.user_id, NEW.id, 'spiff_' || NEW.status);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_spiff_status_change
+  AFTER UPDATE OF status ON public.spiffs
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_spiff_status_change();
@@ -0,0 +1,49 @@
+-- Manufacturer spiff programs. A sale qualifies when it falls inside the
+-- program's date window and meets every rule that is set.
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS vehicle_model text;
+
+CREATE TABLE IF NOT EXISTS public.incentive_programs (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  -- Empty means any sale type
+  sale_types text[] NOT NULL DEFAULT '{}',
+  -- Matched case-insensitively against the sale's model, e.g. "Outlander PHEV"
+  model text,
+  min_product text CHECK (min_product IN ('accessories', 'warranty', 'maintenance')),
+  min_product_price numeric NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  CONSTRAINT incentive_programs_date_range_check CHECK (end_date >= start_date)
+);
+
+ALTER TABLE public.incentive_programs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view incentive programs"
+  ON public.incentive_programs FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can add incentive programs"
+  ON public.incentive_programs FOR INSERT
+  WITH CHECK (is_manager() AND auth.uid() = created_by);
+
+CREATE POLICY "Managers can update incentive programs"
+  ON public.incentive_programs FOR UPDATE
+  USING (is_manager());
+
+CREATE INDEX IF NOT EXISTS idx_incentive_programs_dates ON public.incentive_programs(start_date, end_date);
+
+-- Spiffs claimed through a program point back at the sale and the program,
+-- and a sale can only claim each program once
+ALTER TABLE public.spiffs
+ADD COLUMN IF NOT EXISTS sale_id uuid REFERENCES public.sales(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS incentive_program_id uuid REFERENCES public.incentive_programs(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS spiffs_sale_program_key
+  ON public.spiffs(sale_id, incentive_program_id);
+
+CREATE INDEX IF NOT EXISTS idx_spiffs_sale_id ON public.spiffs(sale_id);
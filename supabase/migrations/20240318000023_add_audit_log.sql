@@ -0,0 +1,99 @@
+-- Append-only history of every change to sales (including shares), spiffs
+-- and chargebacks, with field-level before and after values
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  table_name text NOT NULL,
+  -- No foreign keys, so history outlives the rows it describes
+  record_id uuid NOT NULL,
+  owner_id uuid,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  changed_by uuid,
+  changed_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  -- { "field": { "old": ..., "new": ... } }
+  changes jsonb NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON public.audit_log(table_name, record_id, changed_at);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the trigger below only; there are no insert, update or
+-- delete policies
+CREATE POLICY "Users can view the history of their own entries"
+  ON public.audit_log FOR SELECT
+  USING (
+    auth.uid() = owner_id OR
+    is_manager_of(owner_id) OR
+    (table_name = 'sales' AND EXISTS (
+      SELECT 1 FROM public.sales s
+      WHERE s.id = record_id AND s.shared_with_id = auth.uid()
+    ))
+  );
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS trigger AS $$
+DECLARE
+  old_row jsonb := '{}'::jsonb;
+  new_row jsonb := '{}'::jsonb;
+  subject jsonb;
+  diff jsonb;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+  subject := CASE WHEN TG_OP = 'DELETE' THEN old_row ELSE new_row END;
+
+  SELECT COALESCE(jsonb_object_agg(key, jsonb_build_object('old', old_row -> key, 'new', new_row -> key)), '{}'::jsonb)
+  INTO diff
+  FROM jsonb_object_keys(old_row || new_row) AS key
+  WHERE key NOT IN ('created_at', 'updated_at')
+    AND (old_row -> key) IS DISTINCT FROM (new_row -> key);
+
+  -- Updates that only touch timestamps aren't worth a history entry
+  IF TG_OP = 'UPDATE' AND diff = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, owner_id, action, changed_by, changes)
+  VALUES (
+    TG_TABLE_NAME,
+    (subject ->> 'id')::uuid,
+    (subject ->> 'user_id')::uuid,
+    lower(TG_OP),
+    auth.uid(),
+    diff
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER audit_sales
+  AFTER INSERT OR UPDATE OR DELETE ON public.sales
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER audit_spiffs
+  AFTER INSERT OR UPDATE OR DELETE ON public.spiffs
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER audit_chargebacks
+  AFTER INSERT OR UPDATE OR DELETE ON public.chargebacks
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change();
@@ -0,0 +1,165 @@
+-- Deleting a sale or spiff moves it to the trash. Trashed entries can be
+-- restored for 30 days and are purged permanently after that.
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE public.spiffs ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE public.chargebacks ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_sales_deleted_at ON public.sales(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_spiffs_deleted_at ON public.spiffs(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_chargebacks_deleted_at ON public.chargebacks(deleted_at);
+
+-- Only the purge below removes rows for good
+DROP POLICY IF EXISTS "Users can delete their own sales" ON public.sales;
+DROP POLICY IF EXISTS "Users can delete their own spiffs" ON public.spiffs;
+
+-- A sale's chargebacks and incentive spiffs go to the trash and come back
+-- with it. Restoring only brings back what was trashed together with the sale.
+CREATE OR REPLACE FUNCTION cascade_sale_trash()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    UPDATE public.chargebacks SET deleted_at = NEW.deleted_at
+    WHERE sale_id = NEW.id AND deleted_at IS NULL;
+    UPDATE public.spiffs SET deleted_at = NEW.deleted_at
+    WHERE sale_id = NEW.id AND deleted_at IS NULL;
+  ELSIF NEW.deleted_at IS NULL AND OLD.deleted_at IS NOT NULL THEN
+    UPDATE public.chargebacks SET deleted_at = NULL
+    WHERE sale_id = NEW.id AND deleted_at = OLD.deleted_at;
+    UPDATE public.spiffs SET deleted_at = NULL
+    WHERE sale_id = NEW.id AND deleted_at = OLD.deleted_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_sale_trashed
+  AFTER UPDATE OF deleted_at ON public.sales
+  FOR EACH ROW
+  EXECUTE FUNCTION cascade_sale_trash();
+
+-- Restoring is only possible inside the retention window
+CREATE OR REPLACE FUNCTION check_trash_restore()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.deleted_at IS NULL AND OLD.deleted_at < now() - interval '30 days' THEN
+    RAISE EXCEPTION 'Entries can only be restored within 30 days of being deleted';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_sale_restore
+  BEFORE UPDATE OF deleted_at ON public.sales
+  FOR EACH ROW
+  EXECUTE FUNCTION check_trash_restore();
+
+CREATE TRIGGER check_spiff_restore
+  BEFORE UPDATE OF deleted_at ON public.spiffs
+  FOR EACH ROW
+  EXECUTE FUNCTION check_trash_restore();
+
+-- A trashed sale can't be unwound; its chargebacks would be live while it isn't
+CREATE OR REPLACE FUNCTION unwind_sale(sale uuid, unwind_date date, reason text)
+RETURNS void AS $$
+DECLARE
+  unwound public.sales;
+BEGIN
+  UPDATE public.sales
+  SET unwound_at = unwind_date, unwind_reason = reason
+  WHERE id = sale AND user_id = auth.uid() AND deal_status = 'funded'
+    AND date <= unwind_date AND unwound_at IS NULL AND deleted_at IS NULL
+  RETURNING * INTO unwound;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only a funded sale that hasn''t been unwound can be unwound';
+  END IF;
+
+  INSERT INTO public.chargebacks (sale_id, user_id, amount, units, reason, date)
+  SELECT sale, c.user_id, -get_credited_commission(unwound, c.percentage), -c.percentage / 100, reason, unwind_date
+  FROM get_sale_credits(sale) AS c
+  WHERE c.percentage > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION purge_deleted_entries()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM public.spiffs WHERE deleted_at < now() - interval '30 days';
+  DELETE FROM public.chargebacks WHERE deleted_at < now() - interval '30 days';
+  DELETE FROM public.sales WHERE deleted_at < now() - interval '30 days';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Nightly purge where pg_cron is enabled; otherwise schedule
+-- purge_deleted_entries() from the Supabase dashboard
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('purge-deleted-entries', '0 3 * * *', 'SELECT purge_deleted_entries()');
+  END IF;
+END;
+$$;
+
+-- Payroll leaves trashed entries out
+CREATE OR REPLACE FUNCTION get_payroll_entries(start_date date, end_date date)
+RETURNS jsonb AS $$
+BEGIN
+  IF NOT is_manager() THEN
+    RAISE EXCEPTION 'Only managers can run payroll';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'employees', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', u.id,
+        'email', u.email,
+        'employee_number', u.employee_number
+      ) ORDER BY u.email)
+      FROM public.users u
+    ), '[]'::jsonb),
+    'sales', COALESCE((
+      SELECT jsonb_agg(to_jsonb(s))
+      FROM public.sales s
+      WHERE s.date <= end_date
+        AND (s.date >= start_date OR s.funded_at >= start_date)
+        AND s.deleted_at IS NULL
+    ), '[]'::jsonb),
+    'spiffs', COALESCE((
+      SELECT jsonb_agg(to_jsonb(sp))
+      FROM public.spiffs sp
+      WHERE sp.date BETWEEN start_date AND end_date
+        AND sp.deleted_at IS NULL
+    ), '[]'::jsonb),
+    'chargebacks', COALESCE((
+      SELECT jsonb_agg(to_jsonb(c) || jsonb_build_object('sales', jsonb_build_object(
+        'stock_number', s.stock_number,
+        'customer_name', s.customer_name,
+        'sale_type', s.sale_type
+      )))
+      FROM public.chargebacks c
+      JOIN public.sales s ON s.id = c.sale_id
+      WHERE c.date BETWEEN start_date AND end_date
+        AND c.deleted_at IS NULL
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Stock numbers already on a live sale, for the deal import's duplicate
+-- check. Security definer since the importer can't see other salespeople's
+-- sales.
+CREATE OR REPLACE FUNCTION get_existing_stock_numbers(stock_numbers text[])
+RETURNS text[] AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  RETURN ARRAY(
+    SELECT DISTINCT s.stock_number
+    FROM public.sales s
+    WHERE s.stock_number = ANY(stock_numbers)
+      AND s.deleted_at IS NULL
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
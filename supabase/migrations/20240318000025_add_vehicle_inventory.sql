@@ -0,0 +1,57 @@
+-- Vehicles on the lot. Sales are linked by stock number, so a typo'd or
+-- already-sold stock number can be caught while the sale is entered.
+CREATE TABLE IF NOT EXISTS public.vehicles (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Stored upper-case so lookups don't depend on how the number was typed
+  stock_number text NOT NULL UNIQUE CHECK (stock_number = upper(btrim(stock_number)) AND stock_number <> ''),
+  vin text,
+  year integer CHECK (year BETWEEN 1900 AND 2100),
+  make text NOT NULL DEFAULT 'Mitsubishi',
+  model text NOT NULL,
+  trim text,
+  condition text NOT NULL CHECK (condition IN ('New', 'Used')),
+  cost numeric NOT NULL DEFAULT 0 CHECK (cost >= 0),
+  -- Days in stock count from here
+  received_at date NOT NULL DEFAULT CURRENT_DATE,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.vehicles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view vehicles"
+  ON public.vehicles FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can add vehicles"
+  ON public.vehicles FOR INSERT
+  WITH CHECK (is_manager() AND auth.uid() = created_by);
+
+CREATE POLICY "Managers can update vehicles"
+  ON public.vehicles FOR UPDATE
+  USING (is_manager());
+
+CREATE INDEX IF NOT EXISTS idx_sales_stock_number ON public.sales(upper(btrim(stock_number)));
+
+-- Each vehicle with the sale that sold it, if any. The view runs with its
+-- owner's rights so salespeople can see a car was sold by someone else;
+-- only the sale's ID and date are exposed.
+CREATE OR REPLACE VIEW public.vehicle_inventory AS
+SELECT
+  v.*,
+  sold.sale_id,
+  sold.sold_on
+FROM public.vehicles v
+LEFT JOIN LATERAL (
+  SELECT s.id AS sale_id, s.date AS sold_on
+  FROM public.sales s
+  WHERE upper(btrim(s.stock_number)) = v.stock_number
+    AND s.deleted_at IS NULL
+    AND s.unwound_at IS NULL
+    AND COALESCE(s.deal_status, 'funded') <> 'cancelled'
+  ORDER BY s.date DESC
+  LIMIT 1
+) sold ON true;
+
+REVOKE ALL ON public.vehicle_inventory FROM anon;
+GRANT SELECT ON public.vehicle_inventory TO authenticated;
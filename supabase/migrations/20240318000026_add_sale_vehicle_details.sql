@@ -0,0 +1,11 @@
+-- The vehicle on a deal: VIN plus the year and make decoded from it. The check
+-- digit is validated in the app; the database only rejects malformed VINs.
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS vin text CHECK (vin ~ '^[A-HJ-NPR-Z0-9]{17}$'),
+ADD COLUMN IF NOT EXISTS vehicle_year integer CHECK (vehicle_year BETWEEN 1900 AND 2100),
+ADD COLUMN IF NOT EXISTS vehicle_make text;
+
+CREATE INDEX IF NOT EXISTS idx_sales_vin ON public.sales(vin);
+
+ALTER TABLE public.vehicles
+ADD CONSTRAINT vehicles_vin_check CHECK (vin ~ '^[A-HJ-NPR-Z0-9]{17}$');
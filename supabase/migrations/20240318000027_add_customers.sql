@@ -0,0 +1,89 @@
+-- Customers shared by the whole dealership, so a repeat buyer is recognized
+-- whoever sold to them last time
+CREATE TABLE IF NOT EXISTS public.customers (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  phone text,
+  email text,
+  address text,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view customers"
+  ON public.customers FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can add customers"
+  ON public.customers FOR INSERT
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Authenticated users can update customers"
+  ON public.customers FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES public.customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sales_customer_id ON public.sales(customer_id);
+
+-- One record per distinct name on existing sales. Differently spelled
+-- duplicates are left for the picker's duplicate detection to surface.
+DO $$
+DECLARE
+  sale_name record;
+  new_customer_id uuid;
+BEGIN
+  FOR sale_name IN
+    SELECT lower(btrim(customer_name)) AS key, min(btrim(customer_name)) AS name, min(user_id::text)::uuid AS created_by
+    FROM public.sales
+    WHERE customer_id IS NULL AND btrim(customer_name) <> ''
+    GROUP BY lower(btrim(customer_name))
+  LOOP
+    INSERT INTO public.customers (name, created_by)
+    VALUES (sale_name.name, sale_name.created_by)
+    RETURNING id INTO new_customer_id;
+
+    UPDATE public.sales SET customer_id = new_customer_id
+    WHERE customer_id IS NULL AND lower(btrim(customer_name)) = sale_name.key;
+  END LOOP;
+END;
+$$;
+
+-- A customer's deals with every salesperson, which row level security would
+-- otherwise limit to the caller's own. Commission amounts are left out.
+CREATE OR REPLACE FUNCTION get_customer_history(customer uuid)
+RETURNS jsonb AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'customer', (SELECT to_jsonb(c) FROM public.customers c WHERE c.id = customer),
+    'sales', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', s.id,
+        'date', s.date,
+        'stock_number', s.stock_number,
+        'sale_type', s.sale_type,
+        'vehicle_year', s.vehicle_year,
+        'vehicle_make', s.vehicle_make,
+        'vehicle_model', s.vehicle_model,
+        'vin', s.vin,
+        'deal_status', s.deal_status,
+        'unwound_at', s.unwound_at,
+        'has_trade_in', COALESCE(s.trade_in_commission, 0) > 0,
+        'salesperson_email', u.email,
+        'shared_with_email', CASE WHEN s.shared_status = 'accepted' THEN s.shared_with_email END
+      ) ORDER BY s.date DESC)
+      FROM public.sales s
+      LEFT JOIN public.users u ON u.id = s.user_id
+      WHERE s.customer_id = customer
+        AND s.deleted_at IS NULL
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
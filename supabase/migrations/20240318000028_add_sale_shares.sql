@@ -0,0 +1,386 @@
+-- A sale can be split among several salespeople (greeter, closer, finance).
+-- Each participant gets their own share with its own percentage and answers
+-- it independently; the seller keeps whatever isn't shared.
+CREATE TABLE IF NOT EXISTS public.sale_shares (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  sale_id uuid REFERENCES public.sales(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) NOT NULL,
+  email text NOT NULL,
+  percentage numeric(5,2) NOT NULL CHECK (percentage > 0 AND percentage < 100),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  responded_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  UNIQUE (sale_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_shares_user_id ON public.sale_shares(user_id);
+
+-- Security definer so the sales and sale_shares policies can refer to each
+-- other without recursing
+CREATE OR REPLACE FUNCTION get_sale_owner(sale uuid)
+RETURNS uuid AS $$
+BEGIN
+  RETURN (SELECT user_id FROM public.sales WHERE id = sale);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION is_sale_participant(sale uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.sale_shares
+    WHERE sale_id = sale AND user_id = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Share changes are part of their sale's history: entries for a row that
+-- hangs off a sale point at it through parent_id and belong to its seller,
+-- since the row's own user_id is the participant
+ALTER TABLE public.audit_log ADD COLUMN IF NOT EXISTS parent_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_parent ON public.audit_log(parent_id, changed_at);
+
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS trigger AS $$
+DECLARE
+  old_row jsonb := '{}'::jsonb;
+  new_row jsonb := '{}'::jsonb;
+  subject jsonb;
+  diff jsonb;
+  parent uuid;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+  subject := CASE WHEN TG_OP = 'DELETE' THEN old_row ELSE new_row END;
+
+  SELECT COALESCE(jsonb_object_agg(key, jsonb_build_object('old', old_row -> key, 'new', new_row -> key)), '{}'::jsonb)
+  INTO diff
+  FROM jsonb_object_keys(old_row || new_row) AS key
+  WHERE key NOT IN ('created_at', 'updated_at')
+    AND (old_row -> key) IS DISTINCT FROM (new_row -> key);
+
+  -- Updates that only touch timestamps aren't worth a history entry
+  IF TG_OP = 'UPDATE' AND diff = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  -- The trigger argument names the column pointing at the parent sale
+  IF TG_NARGS > 0 THEN
+    parent := (subject ->> TG_ARGV[0])::uuid;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, owner_id, parent_id, action, changed_by, changes)
+  VALUES (
+    TG_TABLE_NAME,
+    (subject ->> 'id')::uuid,
+    CASE WHEN parent IS NULL THEN (subject ->> 'user_id')::uuid ELSE get_sale_owner(parent) END,
+    parent,
+    lower(TG_OP),
+    auth.uid(),
+    diff
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER audit_sale_shares
+  AFTER INSERT OR UPDATE OR DELETE ON public.sale_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change('sale_id');
+
+-- Existing single shares become the first participant of their sale
+INSERT INTO public.sale_shares (sale_id, user_id, email, percentage, status)
+SELECT id, shared_with_id, shared_with_email, COALESCE(shared_percentage, 50), shared_status
+FROM public.sales
+WHERE shared_with_id IS NOT NULL AND shared_with_email IS NOT NULL AND shared_status IS NOT NULL
+ON CONFLICT (sale_id, user_id) DO NOTHING;
+
+-- Shares that haven't been rejected may not add up to the whole sale; the
+-- seller always keeps part of it. Triggers fire in name order, so this sees
+-- the status on_sale_share_update settled on.
+CREATE OR REPLACE FUNCTION check_sale_share()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.user_id = get_sale_owner(NEW.sale_id) THEN
+    RAISE EXCEPTION 'A sale can''t be shared with its own seller';
+  END IF;
+
+  IF NEW.status <> 'rejected' AND NEW.percentage + (
+    SELECT COALESCE(sum(percentage), 0) FROM public.sale_shares
+    WHERE sale_id = NEW.sale_id AND id <> NEW.id AND status <> 'rejected'
+  ) >= 100 THEN
+    RAISE EXCEPTION 'Shares must leave part of the sale to the seller';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_sale_share_validate
+  BEFORE INSERT OR UPDATE ON public.sale_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION check_sale_share();
+
+-- Participants may only answer their share. Any change the seller makes
+-- asks the participant again.
+CREATE OR REPLACE FUNCTION handle_sale_share_update()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.sale_id IS DISTINCT FROM OLD.sale_id OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'A share can''t be moved to another sale or salesperson';
+  END IF;
+
+  IF auth.uid() = OLD.user_id THEN
+    IF NEW.percentage IS DISTINCT FROM OLD.percentage OR NEW.email IS DISTINCT FROM OLD.email THEN
+      RAISE EXCEPTION 'Participants can only accept or reject a share';
+    END IF;
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      NEW.responded_at := timezone('utc'::text, now());
+    END IF;
+  ELSIF (to_jsonb(NEW) - 'responded_at') IS DISTINCT FROM (to_jsonb(OLD) - 'responded_at') THEN
+    NEW.status := 'pending';
+    NEW.responded_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_sale_share_update
+  BEFORE UPDATE ON public.sale_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_sale_share_update();
+
+ALTER TABLE public.sale_shares ENABLE ROW LEVEL SECURITY;
+
+-- Everyone on a deal can see how it's split
+CREATE POLICY "Users can view shares of their sales"
+  ON public.sale_shares FOR SELECT
+  USING (
+    auth.uid() = user_id OR
+    auth.uid() = get_sale_owner(sale_id) OR
+    is_sale_participant(sale_id) OR
+    is_manager_of(user_id) OR
+    is_manager_of(get_sale_owner(sale_id))
+  );
+
+CREATE POLICY "Sellers can share their sales"
+  ON public.sale_shares FOR INSERT
+  WITH CHECK (auth.uid() = get_sale_owner(sale_id));
+
+CREATE POLICY "Sellers and participants can update shares"
+  ON public.sale_shares FOR UPDATE
+  USING (auth.uid() = user_id OR auth.uid() = get_sale_owner(sale_id));
+
+CREATE POLICY "Sellers can remove shares"
+  ON public.sale_shares FOR DELETE
+  USING (auth.uid() = get_sale_owner(sale_id));
+
+-- Unwinds charge back every accepted participant; the seller keeps what
+-- isn't shared
+CREATE OR REPLACE FUNCTION get_sale_credits(sale uuid)
+RETURNS TABLE (user_id uuid, percentage numeric) AS $$
+  SELECT s.user_id, 100 - COALESCE((
+    SELECT sum(sh.percentage) FROM public.sale_shares sh
+    WHERE sh.sale_id = s.id AND sh.status = 'accepted'
+  ), 0)
+  FROM public.sales s
+  WHERE s.id = sale
+  UNION ALL
+  SELECT sh.user_id, sh.percentage
+  FROM public.sale_shares sh
+  WHERE sh.sale_id = sale AND sh.status = 'accepted'
+$$ LANGUAGE sql STABLE;
+
+-- Retire the single share columns along with everything that used them
+DROP TRIGGER IF EXISTS on_shared_sale_created ON public.sales;
+DROP TRIGGER IF EXISTS trg_shared_sale_created ON public.sales;
+DROP TRIGGER IF EXISTS on_shared_sale_status_change ON public.sales;
+DROP TRIGGER IF EXISTS on_shared_sale_recipient_update ON public.sales;
+DROP FUNCTION IF EXISTS create_shared_sale_notification();
+DROP FUNCTION IF EXISTS handle_shared_sale_status_change();
+DROP FUNCTION IF EXISTS restrict_shared_sale_recipient_update();
+
+DROP POLICY IF EXISTS "Recipients can respond to sales shared with them" ON public.sales;
+
+DROP POLICY IF EXISTS "Users can view their own sales and sales shared with them" ON public.sales;
+CREATE POLICY "Users can view their own sales and sales shared with them"
+  ON public.sales FOR SELECT
+  USING (auth.uid() = user_id OR is_sale_participant(id));
+
+DROP POLICY IF EXISTS "Managers can view their team's sales" ON public.sales;
+CREATE POLICY "Managers can view their team's sales"
+  ON public.sales FOR SELECT
+  USING (
+    is_manager_of(user_id) OR
+    EXISTS (
+      SELECT 1 FROM public.sale_shares sh
+      WHERE sh.sale_id = sales.id AND sh.status = 'accepted' AND is_manager_of(sh.user_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view the history of their own entries" ON public.audit_log;
+CREATE POLICY "Users can view the history of their own entries"
+  ON public.audit_log FOR SELECT
+  USING (
+    auth.uid() = owner_id OR
+    is_manager_of(owner_id) OR
+    (table_name = 'sales' AND is_sale_participant(record_id)) OR
+    (table_name = 'sale_shares' AND is_sale_participant(parent_id))
+  );
+
+DROP INDEX IF EXISTS idx_sales_shared_with_id;
+DROP INDEX IF EXISTS idx_sales_shared_with_email;
+DROP INDEX IF EXISTS idx_sales_shared_status;
+
+ALTER TABLE public.sales DROP CONSTRAINT IF EXISTS shared_status_check;
+ALTER TABLE public.sales
+DROP COLUMN IF EXISTS shared_with_id,
+DROP COLUMN IF EXISTS shared_with_email,
+DROP COLUMN IF EXISTS shared_status,
+DROP COLUMN IF EXISTS shared_percentage;
+
+-- Share notifications point at the share they're about, as well as its sale
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS share_id uuid REFERENCES public.sale_shares(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_share_id ON public.notifications(share_id);
+
+UPDATE public.notifications n
+SET share_id = sh.id
+FROM public.sale_shares sh
+WHERE n.sale_id = sh.sale_id
+  AND n.type LIKE 'shared_sale_%'
+  AND n.share_id IS NULL
+  AND (n.type <> 'shared_sale_pending' OR n.user_id = sh.user_id);
+
+-- The participant is asked whenever a share is created or changed, and the
+-- seller hears back when they answer
+CREATE OR REPLACE FUNCTION handle_sale_share_notification()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'pending' AND (
+    TG_OP = 'INSERT' OR
+    OLD.status <> 'pending' OR
+    NEW.percentage IS DISTINCT FROM OLD.percentage
+  ) THEN
+    -- An earlier request for the same share is out of date
+    UPDATE public.notifications SET read = true
+    WHERE share_id = NEW.id AND type = 'shared_sale_pending' AND read = false;
+
+    INSERT INTO public.notifications (user_id, sale_id, share_id, type)
+    VALUES (NEW.user_id, NEW.sale_id, NEW.id, 'shared_sale_pending');
+  ELSIF TG_OP = 'UPDATE' AND NEW.status IN ('accepted', 'rejected') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.notifications (user_id, sale_id, share_id, type)
+    VALUES (get_sale_owner(NEW.sale_id), NEW.sale_id, NEW.id, 'shared_sale_' || NEW.status);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_sale_share_notification
+  AFTER INSERT OR UPDATE ON public.sale_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_sale_share_notification();
+
+-- Payroll needs each sale's split to credit every participant. A share
+-- accepted during the run moves commission on an earlier sale, so that sale
+-- comes along too.
+CREATE OR REPLACE FUNCTION get_payroll_entries(start_date date, end_date date)
+RETURNS jsonb AS $$
+BEGIN
+  IF NOT is_manager() THEN
+    RAISE EXCEPTION 'Only managers can run payroll';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'employees', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', u.id,
+        'email', u.email,
+        'employee_number', u.employee_number
+      ) ORDER BY u.email)
+      FROM public.users u
+    ), '[]'::jsonb),
+    'sales', COALESCE((
+      SELECT jsonb_agg(to_jsonb(s) || jsonb_build_object('sale_shares', COALESCE((
+        SELECT jsonb_agg(to_jsonb(sh))
+        FROM public.sale_shares sh
+        WHERE sh.sale_id = s.id
+      ), '[]'::jsonb)))
+      FROM public.sales s
+      WHERE s.date <= end_date
+        AND (
+          s.date >= start_date OR
+          s.funded_at >= start_date OR
+          EXISTS (
+            SELECT 1 FROM public.sale_shares sh
+            WHERE sh.sale_id = s.id AND sh.status = 'accepted' AND sh.responded_at >= start_date
+          )
+        )
+        AND s.deleted_at IS NULL
+    ), '[]'::jsonb),
+    'spiffs', COALESCE((
+      SELECT jsonb_agg(to_jsonb(sp))
+      FROM public.spiffs sp
+      WHERE sp.date BETWEEN start_date AND end_date
+        AND sp.deleted_at IS NULL
+    ), '[]'::jsonb),
+    'chargebacks', COALESCE((
+      SELECT jsonb_agg(to_jsonb(c) || jsonb_build_object('sales', jsonb_build_object(
+        'stock_number', s.stock_number,
+        'customer_name', s.customer_name,
+        'sale_type', s.sale_type
+      )))
+      FROM public.chargebacks c
+      JOIN public.sales s ON s.id = c.sale_id
+      WHERE c.date BETWEEN start_date AND end_date
+        AND c.deleted_at IS NULL
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_customer_history(customer uuid)
+RETURNS jsonb AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'customer', (SELECT to_jsonb(c) FROM public.customers c WHERE c.id = customer),
+    'sales', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', s.id,
+        'date', s.date,
+        'stock_number', s.stock_number,
+        'sale_type', s.sale_type,
+        'vehicle_year', s.vehicle_year,
+        'vehicle_make', s.vehicle_make,
+        'vehicle_model', s.vehicle_model,
+        'vin', s.vin,
+        'deal_status', s.deal_status,
+        'unwound_at', s.unwound_at,
+        'has_trade_in', COALESCE(s.trade_in_commission, 0) > 0,
+        'salesperson_email', u.email,
+        'shared_with_emails', COALESCE((
+          SELECT jsonb_agg(sh.email ORDER BY sh.created_at)
+          FROM public.sale_shares sh
+          WHERE sh.sale_id = s.id AND sh.status = 'accepted'
+        ), '[]'::jsonb)
+      ) ORDER BY s.date DESC)
+      FROM public.sales s
+      LEFT JOIN public.users u ON u.id = s.user_id
+      WHERE s.customer_id = customer
+        AND s.deleted_at IS NULL
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
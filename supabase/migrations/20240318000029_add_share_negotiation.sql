@@ -0,0 +1,251 @@
+-- Shares can be negotiated: the seller can revoke, resend or re-target an
+-- offer and a participant can counter with a different split instead of
+-- rejecting outright. Every step is kept in share_events.
+ALTER TABLE public.sale_shares DROP CONSTRAINT IF EXISTS sale_shares_status_check;
+ALTER TABLE public.sale_shares
+ADD CONSTRAINT sale_shares_status_check CHECK (status IN ('pending', 'accepted', 'rejected', 'countered', 'revoked')),
+ADD COLUMN IF NOT EXISTS counter_percentage numeric(5,2) CHECK (counter_percentage > 0 AND counter_percentage < 100),
+ADD COLUMN IF NOT EXISTS response_note text,
+ADD COLUMN IF NOT EXISTS offered_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL;
+
+ALTER TABLE public.sale_shares
+ADD CONSTRAINT sale_shares_counter_check CHECK (status <> 'countered' OR counter_percentage IS NOT NULL);
+
+-- A backfill, not a new offer: the share triggers would otherwise send every
+-- share back to pending and notify everyone again
+ALTER TABLE public.sale_shares DISABLE TRIGGER USER;
+UPDATE public.sale_shares SET offered_at = created_at;
+ALTER TABLE public.sale_shares ENABLE TRIGGER USER;
+
+-- Shares are revoked rather than deleted, so their history stays and an
+-- accepted share can't disappear from under its participant
+DROP POLICY IF EXISTS "Sellers can remove shares" ON public.sale_shares;
+
+CREATE TABLE IF NOT EXISTS public.share_events (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  sale_id uuid REFERENCES public.sales(id) ON DELETE CASCADE NOT NULL,
+  share_id uuid REFERENCES public.sale_shares(id) ON DELETE CASCADE NOT NULL,
+  action text NOT NULL CHECK (action IN (
+    'offered',
+    'resent',
+    'retargeted',
+    'accepted',
+    'rejected',
+    'countered',
+    'counter_accepted',
+    'counter_declined',
+    'revoked'
+  )),
+  actor_id uuid,
+  actor_email text,
+  -- The participant at the time, and who they replaced on a re-target
+  email text NOT NULL,
+  previous_email text,
+  percentage numeric(5,2),
+  note text,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_events_sale ON public.share_events(sale_id, created_at);
+
+ALTER TABLE public.share_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by the trigger below only
+CREATE POLICY "Users can view the negotiation on their sales"
+  ON public.share_events FOR SELECT
+  USING (
+    auth.uid() = get_sale_owner(sale_id) OR
+    is_sale_participant(sale_id) OR
+    is_manager_of(get_sale_owner(sale_id))
+  );
+
+-- What happened so far, as far as it can be told from the shares themselves
+INSERT INTO public.share_events (sale_id, share_id, action, actor_id, email, percentage, created_at)
+SELECT sale_id, id, 'offered', get_sale_owner(sale_id), email, percentage, created_at
+FROM public.sale_shares;
+
+INSERT INTO public.share_events (sale_id, share_id, action, actor_id, email, percentage, created_at)
+SELECT sale_id, id, status, user_id, email, percentage, responded_at
+FROM public.sale_shares
+WHERE status IN ('accepted', 'rejected') AND responded_at IS NOT NULL;
+
+UPDATE public.share_events SET actor_email = get_user_email_from_id(actor_id);
+
+-- Revoked shares go back to the seller just like rejected ones. An unwound
+-- deal was charged back as it was split then, so its shares stay as they are.
+CREATE OR REPLACE FUNCTION check_sale_share()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.user_id = get_sale_owner(NEW.sale_id) THEN
+    RAISE EXCEPTION 'A sale can''t be shared with its own seller';
+  END IF;
+
+  IF (SELECT unwound_at FROM public.sales WHERE id = NEW.sale_id) IS NOT NULL THEN
+    RAISE EXCEPTION 'The shares of an unwound deal can''t change';
+  END IF;
+
+  IF NEW.status NOT IN ('rejected', 'revoked') AND NEW.percentage + (
+    SELECT COALESCE(sum(percentage), 0) FROM public.sale_shares
+    WHERE sale_id = NEW.sale_id AND id <> NEW.id AND status NOT IN ('rejected', 'revoked')
+  ) >= 100 THEN
+    RAISE EXCEPTION 'Shares must leave part of the sale to the seller';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Participants answer the offer in front of them: accept, reject or counter,
+-- and give up a share they accepted until the deal is funded and it's paid. The seller can revoke an open share,
+-- take a participant up on their counter, or make a fresh offer by changing
+-- the split, the salesperson or just resending it. An accepted share is
+-- settled: taking it back means unwinding the deal, which charges it back.
+CREATE OR REPLACE FUNCTION handle_sale_share_update()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.sale_id IS DISTINCT FROM OLD.sale_id THEN
+    RAISE EXCEPTION 'A share can''t be moved to another sale';
+  END IF;
+
+  IF auth.uid() = OLD.user_id THEN
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id OR
+       NEW.email IS DISTINCT FROM OLD.email OR
+       NEW.percentage IS DISTINCT FROM OLD.percentage OR
+       NEW.offered_at IS DISTINCT FROM OLD.offered_at THEN
+      RAISE EXCEPTION 'Participants can only answer a share';
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status OR NEW.counter_percentage IS DISTINCT FROM OLD.counter_percentage THEN
+      IF OLD.status IN ('rejected', 'revoked') OR NEW.status NOT IN ('accepted', 'rejected', 'countered') THEN
+        RAISE EXCEPTION 'This share can no longer be answered';
+      END IF;
+      IF OLD.status = 'accepted' AND NEW.status <> 'rejected' THEN
+        RAISE EXCEPTION 'An accepted share can only be given up';
+      END IF;
+      IF OLD.status = 'accepted' AND (SELECT deal_status FROM public.sales WHERE id = OLD.sale_id) = 'funded' THEN
+        RAISE EXCEPTION 'A share of a funded deal can''t be given up; the seller can unwind the deal';
+      END IF;
+
+      IF NEW.status <> 'countered' THEN
+        NEW.counter_percentage := NULL;
+      END IF;
+      NEW.responded_at := timezone('utc'::text, now());
+    END IF;
+  ELSIF (to_jsonb(NEW) - 'responded_at') IS DISTINCT FROM (to_jsonb(OLD) - 'responded_at') THEN
+    IF NEW.status = 'accepted' AND OLD.status = 'countered' AND NEW.user_id = OLD.user_id THEN
+      NEW.percentage := OLD.counter_percentage;
+      NEW.counter_percentage := NULL;
+      NEW.responded_at := timezone('utc'::text, now());
+    ELSIF OLD.status = 'accepted' THEN
+      RAISE EXCEPTION 'An accepted share can''t be changed or revoked; unwind the deal instead';
+    ELSIF NEW.status = 'revoked' THEN
+      IF OLD.status NOT IN ('pending', 'countered') THEN
+        RAISE EXCEPTION 'Only an open share can be revoked';
+      END IF;
+      NEW.user_id := OLD.user_id;
+      NEW.email := OLD.email;
+      NEW.counter_percentage := NULL;
+    ELSE
+      NEW.status := 'pending';
+      NEW.counter_percentage := NULL;
+      NEW.response_note := NULL;
+      NEW.responded_at := NULL;
+      NEW.offered_at := timezone('utc'::text, now());
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'shared_sale_pending',
+  'shared_sale_accepted',
+  'shared_sale_rejected',
+  'shared_sale_countered',
+  'shared_sale_counter_accepted',
+  'shared_sale_revoked',
+  'spiff_approved',
+  'spiff_rejected'
+));
+
+-- Records each step of the negotiation and tells the other side about it.
+-- Whoever acted has dealt with their own notifications about the share.
+DROP TRIGGER IF EXISTS on_sale_share_notification ON public.sale_shares;
+DROP FUNCTION IF EXISTS handle_sale_share_notification();
+
+CREATE OR REPLACE FUNCTION handle_sale_share_change()
+RETURNS trigger AS $$
+DECLARE
+  event_action text;
+  owner_id uuid := get_sale_owner(NEW.sale_id);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    event_action := 'offered';
+  ELSIF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    event_action := 'retargeted';
+  ELSIF NEW.status = 'pending' AND OLD.status = 'countered' AND NEW.percentage = OLD.percentage THEN
+    event_action := 'counter_declined';
+  ELSIF NEW.status = 'pending' AND NEW.percentage IS DISTINCT FROM OLD.percentage THEN
+    event_action := 'offered';
+  ELSIF NEW.status = 'pending' AND (OLD.status <> 'pending' OR NEW.offered_at IS DISTINCT FROM OLD.offered_at) THEN
+    event_action := 'resent';
+  ELSIF NEW.status = 'accepted' AND OLD.status = 'countered' AND auth.uid() IS DISTINCT FROM NEW.user_id THEN
+    event_action := 'counter_accepted';
+  ELSIF NEW.status = 'countered' AND (OLD.status <> 'countered' OR NEW.counter_percentage IS DISTINCT FROM OLD.counter_percentage) THEN
+    event_action := 'countered';
+  ELSIF NEW.status IN ('accepted', 'rejected', 'revoked') AND NEW.status <> OLD.status THEN
+    event_action := NEW.status;
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.share_events (sale_id, share_id, action, actor_id, actor_email, email, previous_email, percentage, note)
+  VALUES (
+    NEW.sale_id,
+    NEW.id,
+    event_action,
+    auth.uid(),
+    get_user_email_from_id(auth.uid()),
+    NEW.email,
+    CASE WHEN event_action = 'retargeted' THEN OLD.email END,
+    CASE WHEN event_action = 'countered' THEN NEW.counter_percentage ELSE NEW.percentage END,
+    CASE WHEN event_action IN ('accepted', 'rejected', 'countered') THEN NEW.response_note END
+  );
+
+  UPDATE public.notifications SET read = true
+  WHERE share_id = NEW.id AND read = false AND user_id = auth.uid();
+
+  IF event_action IN ('offered', 'resent', 'retargeted', 'counter_declined') THEN
+    -- An earlier request for the same share is out of date
+    UPDATE public.notifications SET read = true
+    WHERE share_id = NEW.id AND type = 'shared_sale_pending' AND read = false;
+
+    INSERT INTO public.notifications (user_id, sale_id, share_id, type)
+    VALUES (NEW.user_id, NEW.sale_id, NEW.id, 'shared_sale_pending');
+  END IF;
+
+  IF event_action = 'retargeted' THEN
+    INSERT INTO public.notifications (user_id, sale_id, share_id, type)
+    VALUES (OLD.user_id, NEW.sale_id, NEW.id, 'shared_sale_revoked');
+  ELSIF event_action = 'revoked' THEN
+    INSERT INTO public.notifications (user_id, sale_id, share_id, type)
+    VALUES (NEW.user_id, NEW.sale_id, NEW.id, 'shared_sale_revoked');
+  ELSIF event_action = 'counter_accepted' THEN
+    INSERT INTO public.notifications (user_id, sale_id, share_id, type)
+    VALUES (NEW.user_id, NEW.sale_id, NEW.id, 'shared_sale_counter_accepted');
+  ELSIF event_action IN ('accepted', 'rejected', 'countered') THEN
+    INSERT INTO public.notifications (user_id, sale_id, share_id, type)
+    VALUES (owner_id, NEW.sale_id, NEW.id, 'shared_sale_' || event_action);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_sale_share_change
+  AFTER INSERT OR UPDATE ON public.sale_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_sale_share_change();